@@ -0,0 +1,197 @@
+"use client";
+
+import React from "react";
+import { AdminHeader, TokenField, inputClass, useAdminApi } from "../shared";
+
+// Verified answers (GET/POST /api/admin/faq). Questions close to one of these get the
+// instructor's answer, with a "verified by instructor" badge, instead of a generated one.
+type FaqEntry = {
+  id: string;
+  question: string;
+  answer: string;
+  experimentId?: string;
+  verifiedBy?: string;
+  feedbackId?: string;
+  updatedAt: string;
+};
+
+type ExperimentOption = { id: string; title: string };
+
+type Draft = { question: string; answer: string; experimentId: string; verifiedBy: string };
+
+const EMPTY: Draft = { question: "", answer: "", experimentId: "", verifiedBy: "" };
+
+const field = "w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+function FaqForm({ initial, experiments, busy, onSave, onCancel }: {
+  initial: Draft;
+  experiments: ExperimentOption[];
+  busy: boolean;
+  onSave: (draft: Draft) => void;
+  onCancel?: () => void;
+}) {
+  const [draft, setDraft] = React.useState(initial);
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs font-medium text-gray-700">
+        Question
+        <input value={draft.question} onChange={(e) => setDraft({ ...draft, question: e.target.value })} className={field} />
+      </label>
+      <label className="block text-xs font-medium text-gray-700">
+        Verified answer (Markdown)
+        <textarea rows={6} value={draft.answer} onChange={(e) => setDraft({ ...draft, answer: e.target.value })} className={field} />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-xs font-medium text-gray-700">
+          Experiment
+          <select value={draft.experimentId} onChange={(e) => setDraft({ ...draft, experimentId: e.target.value })} className={field}>
+            <option value="">All experiments</option>
+            {experiments.map((x) => (
+              <option key={x.id} value={x.id}>{x.title}</option>
+            ))}
+            {draft.experimentId && !experiments.some((x) => x.id === draft.experimentId) && (
+              <option value={draft.experimentId}>{draft.experimentId}</option>
+            )}
+          </select>
+        </label>
+        <label className="block text-xs font-medium text-gray-700">
+          Verified by
+          <input value={draft.verifiedBy} onChange={(e) => setDraft({ ...draft, verifiedBy: e.target.value })} placeholder="e.g. Dr. Sharma" className={field} />
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <button
+          disabled={busy || !draft.question.trim() || !draft.answer.trim()}
+          onClick={() => onSave(draft)}
+          className="rounded px-3 py-1 text-xs font-semibold text-white disabled:opacity-50"
+          style={{backgroundColor: '#02263C'}}
+        >
+          Save
+        </button>
+        {onCancel && (
+          <button onClick={onCancel} className="rounded px-3 py-1 text-xs text-gray-600 hover:bg-gray-100">
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function VerifiedAnswers() {
+  const { token, saveToken, call } = useAdminApi();
+  const [entries, setEntries] = React.useState<FaqEntry[]>([]);
+  const [experiments, setExperiments] = React.useState<ExperimentOption[]>([]);
+  const [editing, setEditing] = React.useState<string | null>(null);
+  const [adding, setAdding] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  const load = React.useCallback(() => {
+    call<{ faq?: FaqEntry[] }>("/api/admin/faq")
+      .then((json) => {
+        setEntries(Array.isArray(json?.faq) ? json.faq : []);
+        setError("");
+      })
+      .catch((e) => {
+        setEntries([]);
+        setError(e.message);
+      });
+  }, [call]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  React.useEffect(() => {
+    fetch("/api/experiments")
+      .then((res) => (res.ok ? res.json() : { experiments: [] }))
+      .then((json) => setExperiments(Array.isArray(json?.experiments) ? json.experiments : []))
+      .catch(() => setExperiments([]));
+  }, []);
+
+  const run = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    setError("");
+    try {
+      await call(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      setEditing(null);
+      setAdding(false);
+      load();
+    } catch (e) {
+      setError((e as Error)?.message ?? "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = (e: FaqEntry) => {
+    if (window.confirm(`Delete the verified answer to "${e.question}"?`)) run(`/api/admin/faq/${e.id}`, "DELETE");
+  };
+
+  const experimentTitle = (id?: string) => (id ? experiments.find((x) => x.id === id)?.title || id : "All experiments");
+
+  return (
+    <main className="mx-auto min-h-screen max-w-5xl bg-gray-50">
+      <AdminHeader title="Verified answers" subtitle="Instructor answers used instead of generated ones for matching questions" />
+      <div className="flex flex-wrap items-center gap-3 border-b border-gray-200 bg-white px-8 py-3 text-xs text-gray-700">
+        <button
+          onClick={() => setAdding(true)}
+          disabled={adding}
+          className="rounded px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+          style={{backgroundColor: '#02263C'}}
+        >
+          New verified answer
+        </button>
+        <TokenField token={token} onChange={saveToken} />
+      </div>
+      <section className="p-8">
+        {error && <p className="mb-4 text-sm text-red-700">{error}</p>}
+        {adding && (
+          <div className="mb-4 rounded-lg border border-cyan-200 bg-white p-4 shadow-sm">
+            <FaqForm initial={EMPTY} experiments={experiments} busy={busy} onSave={(d) => run("/api/admin/faq", "POST", d)} onCancel={() => setAdding(false)} />
+          </div>
+        )}
+        {!error && !adding && entries.length === 0 && <p className="text-sm text-gray-600">No verified answers yet.</p>}
+        <ul className="space-y-4">
+          {entries.map((e) => (
+            <li key={e.id} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+              {editing === e.id ? (
+                <FaqForm
+                  initial={{ question: e.question, answer: e.answer, experimentId: e.experimentId || "", verifiedBy: e.verifiedBy || "" }}
+                  experiments={experiments}
+                  busy={busy}
+                  onSave={(d) => run(`/api/admin/faq/${e.id}`, "PATCH", d)}
+                  onCancel={() => setEditing(null)}
+                />
+              ) : (
+                <>
+                  <div className="mb-1 flex flex-wrap gap-2 text-xs text-gray-500">
+                    <span>{experimentTitle(e.experimentId)}</span>
+                    {e.verifiedBy && <span>· verified by {e.verifiedBy}</span>}
+                    <span>· updated {new Date(e.updatedAt).toLocaleDateString()}</span>
+                    {e.feedbackId && <span>· from student feedback</span>}
+                  </div>
+                  <p className="text-sm font-semibold text-gray-800">{e.question}</p>
+                  <p className="mt-1 whitespace-pre-wrap text-sm text-gray-700">{e.answer}</p>
+                  <div className="mt-3 flex gap-2">
+                    <button onClick={() => setEditing(e.id)} className={`${inputClass} hover:bg-cyan-50`}>
+                      Edit
+                    </button>
+                    <button onClick={() => remove(e)} disabled={busy} className="rounded px-3 py-1 text-xs text-red-700 hover:bg-red-50">
+                      Delete
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import React from "react";
+import { AdminHeader, TokenField, inputClass, useAdminApi, type AdminCall } from "../shared";
+
+// Review queue for rated answers (GET /api/admin/feedback). Reviewers correct an answer and
+// promote it into the evaluation golden set or the curated FAQ.
+type Feedback = {
+  id: string;
+  rating: "up" | "down";
+  comment?: string;
+  question: string;
+  answer: string;
+  experimentId?: string;
+  intent?: string;
+  chunks: string[];
+  similarity: number | null;
+  web: boolean;
+  status: "new" | "promoted" | "dismissed";
+  promotedTo?: { target: "golden" | "faq"; id: string; at: string };
+  createdAt: string;
+};
+
+type Draft = { question: string; answer: string; experimentId: string; expectedChunks: string; facts: string };
+
+const lines = (text: string) => text.split("\n").map((l) => l.trim()).filter(Boolean);
+
+function FeedbackCard({ f, call, onChange }: {
+  f: Feedback;
+  call: AdminCall;
+  onChange: () => void;
+}) {
+  const [draft, setDraft] = React.useState<Draft | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  const startReview = () =>
+    setDraft({
+      question: f.question,
+      answer: f.answer,
+      experimentId: f.experimentId || "",
+      expectedChunks: f.chunks.join("\n"),
+      facts: "",
+    });
+
+  const run = async (url: string, body: unknown, method = "POST") => {
+    setBusy(true);
+    setError("");
+    try {
+      await call(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      setDraft(null);
+      onChange();
+    } catch (e) {
+      setError((e as Error)?.message ?? "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const promote = (target: "golden" | "faq") =>
+    draft &&
+    run(`/api/admin/feedback/${f.id}/promote`, {
+      target,
+      question: draft.question,
+      answer: draft.answer,
+      experimentId: draft.experimentId || undefined,
+      expectedChunks: lines(draft.expectedChunks),
+      facts: lines(draft.facts),
+    });
+
+  const field = "w-full rounded border border-gray-300 bg-white px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+  return (
+    <li className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <span>{f.rating === "down" ? "👎" : "👍"}</span>
+        <span>{new Date(f.createdAt).toLocaleString()}</span>
+        {f.experimentId && <span>· {f.experimentId}</span>}
+        {f.intent && <span>· {f.intent}</span>}
+        <span>· similarity {f.similarity == null ? "n/a" : f.similarity.toFixed(2)}</span>
+        {f.web && <span>· web search used</span>}
+        {f.status !== "new" && (
+          <span className="ml-auto rounded bg-gray-100 px-1.5 py-0.5">
+            {f.status === "promoted" && f.promotedTo ? `promoted to ${f.promotedTo.target === "golden" ? "golden set" : "FAQ"}` : f.status}
+          </span>
+        )}
+      </div>
+      <p className="text-sm font-semibold text-gray-800">{f.question}</p>
+      <p className="mt-1 whitespace-pre-wrap text-sm text-gray-700">{f.answer}</p>
+      {f.comment && <p className="mt-2 rounded bg-amber-50 px-2 py-1 text-xs text-amber-900">Student: {f.comment}</p>}
+      {f.chunks.length > 0 && (
+        <details className="mt-2 text-xs text-gray-500">
+          <summary className="cursor-pointer">{f.chunks.length} retrieved chunks</summary>
+          <ol className="mt-1 list-decimal pl-5 font-mono">
+            {f.chunks.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ol>
+        </details>
+      )}
+
+      {!draft ? (
+        <div className="mt-3 flex gap-2">
+          <button onClick={startReview} className="rounded px-3 py-1 text-xs font-semibold text-white" style={{backgroundColor: '#02263C'}}>
+            Review
+          </button>
+          {f.status === "new" ? (
+            <button disabled={busy} onClick={() => run(`/api/admin/feedback/${f.id}`, { status: "dismissed" }, "PATCH")} className="rounded px-3 py-1 text-xs text-gray-600 hover:bg-gray-100">
+              Dismiss
+            </button>
+          ) : (
+            <button disabled={busy} onClick={() => run(`/api/admin/feedback/${f.id}`, { status: "new" }, "PATCH")} className="rounded px-3 py-1 text-xs text-gray-600 hover:bg-gray-100">
+              Back to queue
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="mt-3 space-y-2 border-t border-gray-200 pt-3">
+          <label className="block text-xs font-medium text-gray-700">
+            Question
+            <input value={draft.question} onChange={(e) => setDraft({ ...draft, question: e.target.value })} className={field} />
+          </label>
+          <label className="block text-xs font-medium text-gray-700">
+            Corrected answer
+            <textarea rows={6} value={draft.answer} onChange={(e) => setDraft({ ...draft, answer: e.target.value })} className={field} />
+          </label>
+          <label className="block text-xs font-medium text-gray-700">
+            Experiment id (empty for all experiments)
+            <input value={draft.experimentId} onChange={(e) => setDraft({ ...draft, experimentId: e.target.value })} className={field} />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block text-xs font-medium text-gray-700">
+              Expected chunks (golden set, one per line)
+              <textarea rows={4} value={draft.expectedChunks} onChange={(e) => setDraft({ ...draft, expectedChunks: e.target.value })} className={`${field} font-mono`} />
+            </label>
+            <label className="block text-xs font-medium text-gray-700">
+              Facts the answer must mention (golden set, one per line)
+              <textarea rows={4} value={draft.facts} onChange={(e) => setDraft({ ...draft, facts: e.target.value })} className={field} />
+            </label>
+          </div>
+          {error && <p className="text-xs text-red-700">{error}</p>}
+          <div className="flex gap-2">
+            <button disabled={busy || !draft.question.trim() || !draft.answer.trim()} onClick={() => promote("golden")} className="rounded px-3 py-1 text-xs font-semibold text-white disabled:opacity-50" style={{backgroundColor: '#02263C'}}>
+              Add to golden set
+            </button>
+            <button disabled={busy || !draft.question.trim() || !draft.answer.trim()} onClick={() => promote("faq")} className="rounded px-3 py-1 text-xs font-semibold text-white disabled:opacity-50" style={{backgroundColor: '#02263C'}}>
+              Add to FAQ
+            </button>
+            <button onClick={() => setDraft(null)} className="rounded px-3 py-1 text-xs text-gray-600 hover:bg-gray-100">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function FeedbackReview() {
+  const { token, saveToken, call } = useAdminApi();
+  const [rating, setRating] = React.useState("down");
+  const [status, setStatus] = React.useState("new");
+  const [items, setItems] = React.useState<Feedback[]>([]);
+  const [error, setError] = React.useState("");
+
+  const load = React.useCallback(() => {
+    call<{ feedback?: Feedback[] }>(`/api/admin/feedback?rating=${rating}&status=${status}`)
+      .then((json) => {
+        setItems(Array.isArray(json?.feedback) ? json.feedback : []);
+        setError("");
+      })
+      .catch((e) => {
+        setItems([]);
+        setError(e.message);
+      });
+  }, [call, rating, status]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <main className="mx-auto min-h-screen max-w-5xl bg-gray-50">
+      <AdminHeader title="Answer feedback" subtitle="Low-rated answers from the Virtual Lab Assistant" />
+      <div className="flex flex-wrap items-center gap-3 border-b border-gray-200 bg-white px-8 py-3 text-xs text-gray-700">
+        <label className="flex items-center gap-2">
+          Rating
+          <select value={rating} onChange={(e) => setRating(e.target.value)} className={inputClass}>
+            <option value="down">👎 only</option>
+            <option value="up">👍 only</option>
+            <option value="all">All</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Status
+          <select value={status} onChange={(e) => setStatus(e.target.value)} className={inputClass}>
+            <option value="new">To review</option>
+            <option value="promoted">Promoted</option>
+            <option value="dismissed">Dismissed</option>
+            <option value="all">All</option>
+          </select>
+        </label>
+        <TokenField token={token} onChange={saveToken} />
+      </div>
+      <section className="p-8">
+        {error && <p className="mb-4 text-sm text-red-700">{error}</p>}
+        {!error && items.length === 0 && <p className="text-sm text-gray-600">Nothing to review.</p>}
+        <ul className="space-y-4">
+          {items.map((f) => (
+            <FeedbackCard key={f.id} f={f} call={call} onChange={load} />
+          ))}
+        </ul>
+      </section>
+    </main>
+  );
+}
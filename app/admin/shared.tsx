@@ -0,0 +1,75 @@
+"use client";
+
+import Link from "next/link";
+import React from "react";
+
+// Pieces shared by the admin pages: the ADMIN_TOKEN kept in this browser, and the page header
+const TOKEN_KEY = "vlab-admin-token";
+
+export const inputClass = "rounded-md border border-cyan-200 bg-white px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+export type AdminCall = <T = Record<string, unknown>>(url: string, init?: RequestInit) => Promise<T>;
+
+export function useAdminApi() {
+  const [token, setToken] = React.useState("");
+
+  React.useEffect(() => {
+    setToken(localStorage.getItem(TOKEN_KEY) || "");
+  }, []);
+
+  const saveToken = (value: string) => {
+    setToken(value);
+    localStorage.setItem(TOKEN_KEY, value);
+  };
+
+  // JSON request with the token; rejects with the route's error message
+  const call: AdminCall = React.useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const res = await fetch(url, {
+        ...init,
+        headers: { ...(init.headers as Record<string, string>), ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || `Error ${res.status}`);
+      return json;
+    },
+    [token]
+  );
+
+  return { token, saveToken, call };
+}
+
+const PAGES = [
+  { href: "/admin/feedback", label: "Feedback" },
+  { href: "/admin/faq", label: "Verified answers" },
+];
+
+export function AdminHeader({ title, subtitle }: { title: string; subtitle: string }) {
+  return (
+    <header style={{backgroundColor: '#02263C'}} className="flex items-end justify-between px-8 py-4 shadow-md">
+      <div>
+        <h1 className="text-xl font-bold text-white">{title}</h1>
+        <p className="text-xs text-cyan-100">{subtitle}</p>
+      </div>
+      <nav className="flex gap-4 text-xs text-cyan-100">
+        {PAGES.map((p) => (
+          <Link key={p.href} href={p.href} className="hover:underline">
+            {p.label}
+          </Link>
+        ))}
+        <Link href="/" className="hover:underline">
+          Assistant
+        </Link>
+      </nav>
+    </header>
+  );
+}
+
+export function TokenField({ token, onChange }: { token: string; onChange: (value: string) => void }) {
+  return (
+    <label className="ml-auto flex items-center gap-2">
+      Admin token
+      <input type="password" value={token} onChange={(e) => onChange(e.target.value)} className={inputClass} />
+    </label>
+  );
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminError } from "@/lib/admin";
+import { clearResponseCache, responseCacheMetrics } from "@/lib/responseCache";
+
+// Response cache hit/miss counters for this server process (null when RESPONSE_CACHE=off)
+export async function GET(req: NextRequest) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  return NextResponse.json({ metrics: await responseCacheMetrics() });
+}
+
+export async function DELETE(req: NextRequest) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  await clearResponseCache();
+  return NextResponse.json({ cleared: true });
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminError } from "@/lib/admin";
+import { EXPERIMENT_ID_RE } from "@/lib/experiments";
+import { deleteFaqEntry, parseFaqFields, updateFaqEntry } from "@/lib/faq";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Any of { question, answer, experimentId, verifiedBy }; an empty experimentId makes the entry global
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  const { fields, error } = parseFaqFields(await req.json().catch(() => null), true);
+  if (!fields) return NextResponse.json({ error }, { status: 400 });
+  if (fields.experimentId && !EXPERIMENT_ID_RE.test(fields.experimentId)) {
+    return NextResponse.json({ error: "Invalid 'experimentId'" }, { status: 400 });
+  }
+  const entry = updateFaqEntry((await params).id, fields);
+  if (!entry) return NextResponse.json({ error: "FAQ entry not found" }, { status: 404 });
+  return NextResponse.json({ entry });
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  if (!deleteFaqEntry((await params).id)) return NextResponse.json({ error: "FAQ entry not found" }, { status: 404 });
+  return NextResponse.json({ deleted: true });
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminError } from "@/lib/admin";
+import { EXPERIMENT_ID_RE } from "@/lib/experiments";
+import { addFaqEntry, loadFaq, parseFaqFields, type FaqFields } from "@/lib/faq";
+
+export async function GET(req: NextRequest) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  const faq = loadFaq().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  return NextResponse.json({ faq });
+}
+
+// { question, answer, experimentId?, verifiedBy? }
+export async function POST(req: NextRequest) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  const { fields, error } = parseFaqFields(await req.json().catch(() => null));
+  if (!fields) return NextResponse.json({ error }, { status: 400 });
+  if (fields.experimentId && !EXPERIMENT_ID_RE.test(fields.experimentId)) {
+    return NextResponse.json({ error: "Invalid 'experimentId'" }, { status: 400 });
+  }
+  return NextResponse.json({ entry: addFaqEntry(fields as FaqFields) }, { status: 201 });
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminError } from "@/lib/admin";
+import { EXPERIMENT_ID_RE } from "@/lib/experiments";
+import { addFaqEntry } from "@/lib/faq";
+import { forReview, loadFeedback, updateFeedback } from "@/lib/feedback";
+import { appendGoldenCase } from "@/lib/goldenSet";
+
+type Params = { params: Promise<{ id: string }> };
+
+const strings = (v: unknown) =>
+  Array.isArray(v) ? v.map((x) => String(x).trim()).filter(Boolean) : [];
+
+// Copies a reviewed question and corrected answer into the golden set or the FAQ:
+// { target: "golden"|"faq", question, answer, experimentId?, expectedChunks?, facts? }
+export async function POST(req: NextRequest, { params }: Params) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  const { id } = await params;
+  if (!loadFeedback().some((f) => f.id === id)) return NextResponse.json({ error: "Feedback not found" }, { status: 404 });
+
+  const body = await req.json().catch(() => ({}));
+  const target = body?.target;
+  if (target !== "golden" && target !== "faq") {
+    return NextResponse.json({ error: "Invalid 'target': use golden or faq" }, { status: 400 });
+  }
+  const question = typeof body?.question === "string" ? body.question.trim() : "";
+  const answer = typeof body?.answer === "string" ? body.answer.trim() : "";
+  if (!question || !answer) return NextResponse.json({ error: "Missing 'question' or 'answer'" }, { status: 400 });
+  const experimentId = typeof body?.experimentId === "string" ? body.experimentId.trim() : "";
+  if (experimentId && !EXPERIMENT_ID_RE.test(experimentId)) {
+    return NextResponse.json({ error: "Invalid 'experimentId'" }, { status: 400 });
+  }
+
+  const promoted =
+    target === "golden"
+      ? appendGoldenCase({
+          question,
+          answer,
+          experimentId: experimentId || undefined,
+          expectedChunks: strings(body?.expectedChunks),
+          facts: strings(body?.facts),
+        })
+      : addFaqEntry({ question, answer, experimentId: experimentId || undefined, feedbackId: id });
+  const feedback = updateFeedback(id, {
+    status: "promoted",
+    promotedTo: { target, id: promoted.id, at: new Date().toISOString() },
+  });
+  return NextResponse.json({ feedback: feedback && forReview(feedback), promoted }, { status: 201 });
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminError } from "@/lib/admin";
+import { forReview, updateFeedback } from "@/lib/feedback";
+
+type Params = { params: Promise<{ id: string }> };
+
+// { status: "dismissed" } hides an entry from the review queue; "new" puts it back
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  const body = await req.json().catch(() => ({}));
+  if (body?.status !== "dismissed" && body?.status !== "new") {
+    return NextResponse.json({ error: "Invalid 'status': use dismissed or new" }, { status: 400 });
+  }
+  const feedback = updateFeedback((await params).id, { status: body.status });
+  if (!feedback) return NextResponse.json({ error: "Feedback not found" }, { status: 404 });
+  return NextResponse.json({ feedback: forReview(feedback) });
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminError } from "@/lib/admin";
+import { forReview, loadFeedback } from "@/lib/feedback";
+
+// ?rating=down|up|all (default down) and ?status=new|promoted|dismissed|all (default new), newest first
+export async function GET(req: NextRequest) {
+  const denied = adminError(req);
+  if (denied) return NextResponse.json({ error: denied }, { status: 401 });
+  const rating = req.nextUrl.searchParams.get("rating") || "down";
+  const status = req.nextUrl.searchParams.get("status") || "new";
+  const feedback = loadFeedback()
+    .filter((f) => (rating === "all" || f.rating === rating) && (status === "all" || f.status === status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(forReview);
+  return NextResponse.json({ feedback });
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { loadExperiments } from "@/lib/experiments";
+
+export async function GET() {
+  const experiments = loadExperiments().map(({ id, title }) => ({ id, title }));
+  return NextResponse.json({ experiments });
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
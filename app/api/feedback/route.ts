@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseFeedback, recordFeedback } from "@/lib/feedback";
+import { sessionOwner } from "@/lib/sessions";
+
+// Rating of one answer: { rating: "up"|"down", comment?, question, answer, experimentId?,
+// sessionId?, trace } where `trace` is the one returned with the answer. Sending the returned
+// `id` again changes the rating instead of adding another one.
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const { input, error } = parseFeedback(body);
+  if (!input) return NextResponse.json({ error }, { status: 400 });
+  const id = typeof body?.id === "string" && body.id ? body.id : undefined;
+  const feedback = recordFeedback(input, { id, owner: sessionOwner(req) ?? undefined });
+  if (!feedback) return NextResponse.json({ error: "Feedback not found" }, { status: 404 });
+  return NextResponse.json({ feedback: { id: feedback.id, rating: feedback.rating, comment: feedback.comment } });
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forStudent, getQuiz } from "@/lib/quiz";
+import { sessionOwner } from "@/lib/sessions";
+
+type Params = { params: Promise<{ id: string }> };
+
+// The questions, and the graded attempt once submitted
+export async function GET(req: NextRequest, { params }: Params) {
+  const quiz = getQuiz((await params).id, sessionOwner(req) ?? undefined);
+  if (!quiz) return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+  return NextResponse.json({ quiz: forStudent(quiz) });
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forStudent, submitQuiz } from "@/lib/quiz";
+import { sessionOwner } from "@/lib/sessions";
+
+type Params = { params: Promise<{ id: string }> };
+
+// { answers: { [questionId]: optionIndex | "short answer" } }; unanswered questions count as wrong.
+// The response carries the graded attempt with explanations and source chunks.
+export async function POST(req: NextRequest, { params }: Params) {
+  const body = await req.json().catch(() => null);
+  const answers = body?.answers;
+  if (!answers || typeof answers !== "object" || Array.isArray(answers)) {
+    return NextResponse.json({ error: "Missing 'answers' object" }, { status: 400 });
+  }
+  const quiz = submitQuiz((await params).id, sessionOwner(req) ?? undefined, answers);
+  if (!quiz) return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+  return NextResponse.json({ quiz: forStudent(quiz) });
+}
+
+export const runtime = "nodejs";
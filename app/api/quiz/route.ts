@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { defaultChatDeps } from "@/lib/chat/pipeline";
+import { forStudent, generateQuiz, parseQuizOptions, saveQuiz, sessionQuizzes } from "@/lib/quiz";
+import { getSessionStore, sessionOwner } from "@/lib/sessions";
+
+// Quizzes taken in one chat session (?sessionId=) and the running score over the graded ones
+export async function GET(req: NextRequest) {
+  const owner = sessionOwner(req);
+  const sessionId = req.nextUrl.searchParams.get("sessionId") || "";
+  if (!owner || !sessionId) return NextResponse.json({ quizzes: [], score: 0, total: 0 });
+  const quizzes = sessionQuizzes(owner, sessionId);
+  const graded = quizzes.filter((q) => q.score != null);
+  return NextResponse.json({
+    quizzes,
+    score: graded.reduce((sum, q) => sum + (q.score ?? 0), 0),
+    total: graded.reduce((sum, q) => sum + q.questions, 0),
+  });
+}
+
+// New quiz: { experimentId?, section?, mcq?, short?, sessionId? }. Clients that identify
+// themselves (X-Client-Id) get a session to track the score in, like /api/chat.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const { options, error } = parseQuizOptions(body);
+    if (!options) return NextResponse.json({ error }, { status: 400 });
+    const owner = sessionOwner(req) ?? undefined;
+    let sessionId: string | undefined;
+    if (owner) {
+      const sessions = getSessionStore();
+      const rawId = typeof body?.sessionId === "string" ? body.sessionId : "";
+      const session = rawId ? await sessions.get(owner, rawId) : null;
+      if (rawId && !session) return NextResponse.json({ error: "Unknown 'sessionId'" }, { status: 404 });
+      sessionId = session?.id;
+    }
+
+    const generated = await generateQuiz(options, await defaultChatDeps());
+    if (!generated.quiz) return NextResponse.json({ error: generated.error }, { status: 422 });
+    if (owner && !sessionId) {
+      const session = await getSessionStore().create(owner, { title: `Quiz: ${generated.quiz.title}`, experimentId: options.experimentId });
+      sessionId = session.id;
+    }
+    const quiz = saveQuiz({ ...generated.quiz, owner, sessionId });
+    return NextResponse.json({ quiz: forStudent(quiz) }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unexpected error" }, { status: 500 });
+  }
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionStore, sessionOwner } from "@/lib/sessions";
+import { loadPublicImage, sessionToMarkdown, sessionToPdf, type ImageLoader } from "@/lib/sessions/export";
+
+type Params = { params: Promise<{ id: string }> };
+
+const UPLOAD_PATH_RE = /^\/api\/sessions\/([^/]+)\/uploads\/([^/?#]+)$/;
+
+// ?format=md (default) or pdf; downloaded as an attachment named after the conversation
+export async function GET(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const owner = sessionOwner(req);
+  const sessions = getSessionStore();
+  const session = owner ? await sessions.get(owner, id) : null;
+  if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  const format = (req.nextUrl.searchParams.get("format") || "md").toLowerCase();
+  if (format !== "md" && format !== "pdf") {
+    return NextResponse.json({ error: "Invalid 'format': use md or pdf" }, { status: 400 });
+  }
+
+  const loadImage: ImageLoader = async (url) => {
+    const upload = url.match(UPLOAD_PATH_RE);
+    if (upload) return upload[1] === id ? sessions.readUpload(owner!, id, upload[2]) : null;
+    return loadPublicImage(url);
+  };
+  const base = session.title.replace(/[^\w -]+/g, "").trim().replace(/\s+/g, "-").slice(0, 60) || "chat";
+
+  if (format === "pdf") {
+    const bytes = await sessionToPdf(session, { loadImage });
+    return new Response(Buffer.from(bytes), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${base}.pdf"`,
+      },
+    });
+  }
+  const markdown = await sessionToMarkdown(session, { origin: req.nextUrl.origin, loadImage });
+  return new Response(markdown, {
+    headers: {
+      "Content-Type": "text/markdown; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${base}.md"`,
+    },
+  });
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
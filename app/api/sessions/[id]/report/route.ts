@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { defaultChatDeps } from "@/lib/chat/pipeline";
+import { generateReport, reportToDocx, reportToMarkdown } from "@/lib/report";
+import { getSessionStore, sessionOwner } from "@/lib/sessions";
+
+type Params = { params: Promise<{ id: string }> };
+
+const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Lab record draft for the session: ?format=docx (default) or md, downloaded as an attachment.
+// Each request drafts the report afresh from the manual, the readings and the conversation.
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const owner = sessionOwner(req);
+    const session = owner ? await getSessionStore().get(owner, id) : null;
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    const format = (req.nextUrl.searchParams.get("format") || "docx").toLowerCase();
+    if (format !== "docx" && format !== "md") {
+      return NextResponse.json({ error: "Invalid 'format': use docx or md" }, { status: 400 });
+    }
+
+    const report = await generateReport(session, await defaultChatDeps());
+    const base = `Lab-report-${session.title.replace(/[^\w -]+/g, "").trim().replace(/\s+/g, "-").slice(0, 50) || "chat"}`;
+    if (format === "docx") {
+      return new Response(Buffer.from(await reportToDocx(report)), {
+        headers: { "Content-Type": DOCX_TYPE, "Content-Disposition": `attachment; filename="${base}.docx"` },
+      });
+    }
+    return new Response(reportToMarkdown(report), {
+      headers: { "Content-Type": "text/markdown; charset=utf-8", "Content-Disposition": `attachment; filename="${base}.md"` },
+    });
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error)?.message ?? "Unexpected error" }, { status: 500 });
+  }
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
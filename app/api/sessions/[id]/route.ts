@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionStore, sessionOwner } from "@/lib/sessions";
+
+type Params = { params: Promise<{ id: string }> };
+
+const NOT_FOUND = { error: "Session not found" };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const owner = sessionOwner(req);
+  const session = owner ? await getSessionStore().get(owner, (await params).id) : null;
+  if (!session) return NextResponse.json(NOT_FOUND, { status: 404 });
+  return NextResponse.json({ session });
+}
+
+// Rename: { title }
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const body = await req.json().catch(() => ({}));
+  const title = typeof body?.title === "string" ? body.title.trim() : "";
+  if (!title) return NextResponse.json({ error: "Missing 'title' in JSON body" }, { status: 400 });
+  const owner = sessionOwner(req);
+  const session = owner ? await getSessionStore().rename(owner, (await params).id, title) : null;
+  if (!session) return NextResponse.json(NOT_FOUND, { status: 404 });
+  return NextResponse.json({ session });
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const owner = sessionOwner(req);
+  const deleted = owner ? await getSessionStore().delete(owner, (await params).id) : false;
+  if (!deleted) return NextResponse.json(NOT_FOUND, { status: 404 });
+  return NextResponse.json({ deleted: true });
+}
+
+export const runtime = "nodejs";
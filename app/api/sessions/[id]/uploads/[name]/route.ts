@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionStore, sessionOwner } from "@/lib/sessions";
+
+type Params = { params: Promise<{ id: string; name: string }> };
+
+// Photos attached to questions; <img> tags can't send headers, so the page adds ?client=
+export async function GET(req: NextRequest, { params }: Params) {
+  const { id, name } = await params;
+  const owner = sessionOwner(req);
+  const upload = owner ? await getSessionStore().readUpload(owner, id, name) : null;
+  if (!upload) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return new Response(new Uint8Array(upload.data), {
+    headers: { "Content-Type": upload.mime, "Cache-Control": "private, max-age=31536000, immutable" },
+  });
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EXPERIMENT_ID_RE } from "@/lib/experiments";
+import { getSessionStore, sessionOwner } from "@/lib/sessions";
+
+const NO_OWNER = "Missing or invalid 'X-Client-Id' header";
+
+export async function GET(req: NextRequest) {
+  const owner = sessionOwner(req);
+  if (!owner) return NextResponse.json({ error: NO_OWNER }, { status: 400 });
+  return NextResponse.json({ sessions: await getSessionStore().list(owner) });
+}
+
+export async function POST(req: NextRequest) {
+  const owner = sessionOwner(req);
+  if (!owner) return NextResponse.json({ error: NO_OWNER }, { status: 400 });
+  const body = await req.json().catch(() => ({}));
+  const experimentId = typeof body?.experimentId === "string" ? body.experimentId.trim() : "";
+  if (experimentId && !EXPERIMENT_ID_RE.test(experimentId)) {
+    return NextResponse.json({ error: "Invalid 'experimentId'" }, { status: 400 });
+  }
+  const title = typeof body?.title === "string" ? body.title : undefined;
+  const session = await getSessionStore().create(owner, { title, experimentId: experimentId || undefined });
+  return NextResponse.json({ session }, { status: 201 });
+}
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
@@ -3,14 +3,169 @@
 import React from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { plotDataUrl, type Plot } from "@/lib/readings/plot";
+import type { ReadingsTable } from "@/lib/readings/table";
+import { QuizPanel } from "./quiz";
 
-type Message = { role: "user" | "assistant"; content: string; sources?: string[] };
+// Numbered source returned with each answer; the answer cites it inline as [n]
+type Source = {
+  n: number;
+  id: string;
+  kind: "doc" | "web" | "image";
+  document: string;
+  section?: string;
+  heading?: string;
+  page?: number;
+  url?: string;
+  snippet: string;
+  alt?: string;
+  cited?: boolean;
+};
+
+// What an answer was based on, as returned by /api/chat; sent back with feedback on the answer
+type Trace = { intent: string; query: string; ranked: string[]; similarity: number | null; web: boolean };
+
+// Set on answers that come from an instructor's verified FAQ entry
+type Verified = { id: string; question: string; verifiedBy?: string };
+
+type Rating = "up" | "down";
+type FeedbackState = { id: string; rating: Rating; comment?: string };
+
+// `image` is the preview URL of a photo the student attached to the question, `table` the name
+// of a readings file sent for analysis
+type Message = {
+  role: "user" | "assistant";
+  content: string;
+  sources?: Source[];
+  image?: string;
+  table?: string;
+  plots?: Plot[];
+  trace?: Trace;
+  verified?: Verified;
+  feedback?: FeedbackState;
+};
+
+// Photo or readings table (CSV/Markdown) waiting to be sent with the next question
+type Attachment = { file: File; url: string; kind: "image" | "table" };
+const MAX_ATTACHMENT_MB = 5;
+const MAX_TABLE_KB = 256;
+const TABLE_FILE_RE = /\.(csv|tsv|md|markdown|txt)$/i;
 
 const SUGGESTED: string[] = [
   "What is the objectives of this experiment?",
   "List the apparatus and the setup steps.",
 ];
 
+type ExperimentOption = { id: string; title: string };
+
+// Saved conversation listed in the sidebar (GET /api/sessions)
+type SessionSummary = { id: string; title: string; experimentId?: string; updatedAt: string; messageCount: number };
+
+type StreamEvent = {
+  event: string;
+  data: { text?: string; answer?: string; sources?: Source[]; error?: string; sessionId?: string; trace?: Trace; verified?: Verified; plots?: Plot[] };
+};
+
+// Conversations are stored on the server under an anonymous id kept in this browser
+const CLIENT_ID_KEY = "vlab-client-id";
+const SESSION_ID_KEY = "vlab-session-id";
+
+const clientId = () => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+const sessionFetch = (url: string, init: RequestInit = {}) =>
+  fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), "X-Client-Id": clientId() } });
+
+// Saved uploads and exports are plain links, which can't carry the X-Client-Id header
+const withClient = (url: string) =>
+  url.startsWith("/api/sessions/") ? `${url}${url.includes("?") ? "&" : "?"}client=${encodeURIComponent(clientId())}` : url;
+
+const sessionDate = (iso: string) => {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? "" : d.toLocaleDateString(undefined, { day: "numeric", month: "short" });
+};
+
+const citeAnchor = (msgIdx: number, n: number) => `cite-${msgIdx}-${n}`;
+
+// Turn [n] markers into links to the matching reference below the answer
+const linkCitations = (text: string, msgIdx: number, sources: Source[] = []) => {
+  const known = new Set(sources.filter((s) => s.kind !== "image").map((s) => s.n));
+  if (!known.size) return text;
+  return text.replace(/\[(\d{1,2})\](?!\()/g, (m, n: string) =>
+    known.has(Number(n)) ? `[[${n}]](#${citeAnchor(msgIdx, Number(n))})` : m
+  );
+};
+
+// Open the reference's snippet and bring it into view
+const showCitation = (id: string) => {
+  const el = document.getElementById(id);
+  if (!el) return;
+  if (el instanceof HTMLDetailsElement) el.open = true;
+  el.scrollIntoView({ behavior: "smooth", block: "nearest" });
+};
+
+// Cited sources only; every retrieved source when the answer cites none
+const referenceList = (sources: Source[] = []) => {
+  const refs = sources.filter((s) => s.kind !== "image");
+  return refs.some((s) => s.cited) ? refs.filter((s) => s.cited) : refs;
+};
+
+// Answers contain bare "%" ("±5%"), which decodeURI rejects
+const safeDecode = (s: string) => {
+  try {
+    return decodeURI(s);
+  } catch {
+    return s;
+  }
+};
+
+// Image sources matching an <img> src in the answer (paths may be URL-encoded)
+const imageSource = (sources: Source[] = [], src?: string) => {
+  if (!src) return undefined;
+  const want = safeDecode(src);
+  return sources.find((s) => s.kind === "image" && s.url && safeDecode(s.url) === want);
+};
+
+// "images/Circuit%20Breaker.png" -> "Circuit Breaker"
+const fileLabel = (src?: unknown) =>
+  typeof src === "string" ? safeDecode(src.split("/").pop() || "").replace(/\.[a-z0-9]+$/i, "") || "Image" : "Image";
+
+// Image sources the answer text does not already show inline
+const galleryImages = (m: Message) =>
+  (m.sources ?? [])
+    .filter((s) => s.kind === "image" && s.url && !safeDecode(m.content).includes(safeDecode(s.url)))
+    .slice(0, 6);
+
+// Read `event:`/`data:` frames from the /api/chat Server-Sent Events stream
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    let sep: number;
+    while ((sep = buffer.indexOf("\n\n")) >= 0) {
+      const frame = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      let event = "message";
+      const data: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) yield { event, data: JSON.parse(data.join("\n")) };
+    }
+    if (done) return;
+  }
+}
+
 export default function Home() {
   const normalizeForImages = (text: string): string => {
     if (!text) return "";
@@ -32,38 +187,268 @@ export default function Home() {
   const [messages, setMessages] = React.useState<Message[]>([]);
   const [input, setInput] = React.useState("");
   const [loading, setLoading] = React.useState(false);
+  const [experiments, setExperiments] = React.useState<ExperimentOption[]>([]);
+  const [experimentId, setExperimentId] = React.useState("");
+  const [attachment, setAttachment] = React.useState<Attachment | null>(null);
+  const [sessionId, setSessionId] = React.useState("");
+  const [sessions, setSessions] = React.useState<SessionSummary[]>([]);
+  // "quiz" swaps the conversation for viva practice on the selected experiment
+  const [mode, setMode] = React.useState<"chat" | "quiz">("chat");
+  // Set while a lab report is being drafted for download
+  const [reporting, setReporting] = React.useState(false);
+  // Index of the answer whose "what was wrong?" box is open
+  const [commenting, setCommenting] = React.useState<number | null>(null);
+  const [comment, setComment] = React.useState("");
   const listRef = React.useRef<HTMLDivElement | null>(null);
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
 
   React.useEffect(() => {
     if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
   }, [messages, loading]);
 
-  const resetChat = () => setMessages([]);
+  React.useEffect(() => {
+    fetch("/api/experiments")
+      .then((res) => (res.ok ? res.json() : { experiments: [] }))
+      .then((json) => setExperiments(Array.isArray(json?.experiments) ? json.experiments : []))
+      .catch(() => setExperiments([]));
+  }, []);
+
+  const refreshSessions = React.useCallback(() => {
+    sessionFetch("/api/sessions")
+      .then((res) => (res.ok ? res.json() : { sessions: [] }))
+      .then((json) => setSessions(Array.isArray(json?.sessions) ? json.sessions : []))
+      .catch(() => setSessions([]));
+  }, []);
+
+  const selectSession = (id: string) => {
+    setSessionId(id);
+    if (id) localStorage.setItem(SESSION_ID_KEY, id);
+    else localStorage.removeItem(SESSION_ID_KEY);
+  };
+
+  const openSession = React.useCallback(async (id: string) => {
+    const res = await sessionFetch(`/api/sessions/${id}`).catch(() => null);
+    const json = res?.ok ? await res.json() : null;
+    if (!json?.session) {
+      // Deleted elsewhere, or stored by another browser
+      if (localStorage.getItem(SESSION_ID_KEY) === id) localStorage.removeItem(SESSION_ID_KEY);
+      return;
+    }
+    // Saved turns hold the parsed readings; the chat shows the file name, or what the table holds
+    type Saved = Omit<Message, "table"> & { table?: ReadingsTable; tableName?: string };
+    const saved: Message[] = (json.session.messages ?? []).map((m: Saved) => ({
+      role: m.role,
+      content: m.content,
+      sources: m.sources,
+      image: m.image,
+      table: m.table ? m.tableName || `${m.table.rows.length} readings (${m.table.headers.join(", ")})` : undefined,
+      trace: m.trace,
+      verified: m.verified,
+      plots: m.plots,
+    }));
+    setMessages(saved);
+    setExperimentId(json.session.experimentId || "");
+    setSessionId(id);
+    localStorage.setItem(SESSION_ID_KEY, id);
+  }, []);
+
+  // Reopen the conversation that was on screen before a refresh
+  React.useEffect(() => {
+    refreshSessions();
+    const last = localStorage.getItem(SESSION_ID_KEY);
+    if (last) openSession(last);
+  }, [refreshSessions, openSession]);
+
+  const resetChat = () => {
+    setMessages([]);
+    setCommenting(null);
+    selectSession("");
+  };
+
+  // Thumbs up/down on an answer; rating it again (or adding a comment) updates the same entry
+  const rate = async (idx: number, rating: Rating, note?: string) => {
+    const m = messages[idx];
+    const question = messages.slice(0, idx).reverse().find((x) => x.role === "user")?.content;
+    if (!m?.trace || !question) return;
+    const res = await sessionFetch("/api/feedback", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        id: m.feedback?.id,
+        rating,
+        comment: note ?? m.feedback?.comment,
+        question,
+        answer: m.content,
+        experimentId: experimentId || undefined,
+        sessionId: sessionId || undefined,
+        trace: m.trace,
+      }),
+    }).catch(() => null);
+    const json = res?.ok ? await res.json() : null;
+    if (!json?.feedback) return;
+    setMessages((ms) => ms.map((x, i) => (i === idx ? { ...x, feedback: json.feedback } : x)));
+    if (rating === "down" && note === undefined) {
+      setCommenting(idx);
+      setComment(m.feedback?.comment || "");
+    } else {
+      setCommenting(null);
+    }
+  };
+
+  // Drafting takes a model call, so the report is fetched here (with a busy state) rather than linked
+  const downloadReport = async (format: "docx" | "md") => {
+    if (!sessionId) return;
+    setReporting(true);
+    try {
+      const res = await sessionFetch(`/api/sessions/${sessionId}/report?format=${format}`);
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `Error ${res.status}`);
+      const name = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || `Lab-report.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      alert(`Could not generate the report: ${(e as Error)?.message ?? "request failed"}`);
+    } finally {
+      setReporting(false);
+    }
+  };
+
+  const renameSession = async (s: SessionSummary) => {
+    const title = window.prompt("Rename conversation", s.title)?.trim();
+    if (!title || title === s.title) return;
+    await sessionFetch(`/api/sessions/${s.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    }).catch(() => null);
+    refreshSessions();
+  };
+
+  const deleteSession = async (s: SessionSummary) => {
+    if (!window.confirm(`Delete "${s.title}"? This cannot be undone.`)) return;
+    await sessionFetch(`/api/sessions/${s.id}`, { method: "DELETE" }).catch(() => null);
+    if (s.id === sessionId) resetChat();
+    refreshSessions();
+  };
+
+  const attach = (file?: File) => {
+    if (!file) return;
+    if (TABLE_FILE_RE.test(file.name) || file.type === "text/csv") {
+      if (file.size > MAX_TABLE_KB * 1024) {
+        alert(`Tables up to ${MAX_TABLE_KB} KB can be attached.`);
+        return;
+      }
+      setAttachment({ file, url: "", kind: "table" });
+      return;
+    }
+    if (!file.type.startsWith("image/")) {
+      alert("Please attach an image (PNG, JPEG, GIF or WebP) or a table of readings (CSV or Markdown).");
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_MB * 1024 * 1024) {
+      alert(`Images up to ${MAX_ATTACHMENT_MB} MB can be attached.`);
+      return;
+    }
+    setAttachment({ file, url: URL.createObjectURL(file), kind: "image" });
+  };
+
+  // The question box is one line, so a pasted table would lose its rows; send it as a readings file
+  const pasteReadings = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData("text/plain");
+    const lines = text.split(/\r?\n/).filter((l) => l.trim());
+    if (lines.length < 3 || !lines.every((l) => /[|,;\t]/.test(l))) return;
+    e.preventDefault();
+    attach(new File([text], lines[0].includes("|") ? "readings.md" : "readings.csv", { type: "text/plain" }));
+  };
 
-  const ask = async (question: string) => {
-    if (!question.trim()) return;
+  const clearAttachment = () => {
+    setAttachment(null);
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  const ask = async (text: string) => {
+    const sent = attachment;
+    if (!text.trim() && !sent) return;
+    const photo = sent?.kind === "image" ? sent : null;
+    const question = text.trim() || (photo ? "What is this component?" : "Analyze my readings");
+    // Prior turns let the server resolve follow-ups like "what precautions apply to it?"
+    const history = messages.map(({ role, content }) => ({ role, content }));
     setLoading(true);
-    setMessages((m) => [...m, { role: "user", content: question }]);
+    // The preview URL stays alive for the message bubble
+    setMessages((m) => [...m, { role: "user", content: question, image: photo?.url, table: sent?.kind === "table" ? sent.file.name : undefined }]);
     setInput("");
+    setAttachment(null);
+    if (fileRef.current) fileRef.current.value = "";
     try {
-      const res = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question }),
-      });
-      const json = await res.json();
-      if (!res.ok) {
-        const msg = json?.error || `Error ${res.status}`;
-        setMessages((m) => [...m, { role: "assistant", content: msg }]);
+      const fields = {
+        question,
+        messages: history,
+        experimentId: experimentId || undefined,
+        sessionId: sessionId || undefined,
+        stream: true,
+      };
+      let body: BodyInit = JSON.stringify(fields);
+      const headers: Record<string, string> = { Accept: "text/event-stream" };
+      if (sent) {
+        const form = new FormData();
+        form.set("question", question);
+        form.set("messages", JSON.stringify(history));
+        if (experimentId) form.set("experimentId", experimentId);
+        if (sessionId) form.set("sessionId", sessionId);
+        form.set("stream", "true");
+        form.set(sent.kind, sent.file);
+        body = form;
+      } else {
+        headers["Content-Type"] = "application/json";
+      }
+      const res = await sessionFetch("/api/chat", { method: "POST", headers, body });
+      const isStream = (res.headers.get("content-type") || "").includes("text/event-stream");
+      if (!isStream || !res.body) {
+        const json = await res.json();
+        if (!res.ok) {
+          const msg = json?.error || `Error ${res.status}`;
+          setMessages((m) => [...m, { role: "assistant", content: msg }]);
+          return;
+        }
+        const text = json?.answer || "No answer returned.";
+        const sources = Array.isArray(json?.sources) ? json.sources : [];
+        setMessages((m) => [...m, { role: "assistant", content: text, sources, trace: json?.trace, verified: json?.verified, plots: json?.plots }]);
+        if (json?.sessionId) selectSession(json.sessionId);
         return;
       }
-      const text = json?.answer || "No answer returned.";
-      const sources = Array.isArray(json?.sources) ? json.sources : [];
-      setMessages((m) => [...m, { role: "assistant", content: text, sources }]);
+
+      // Render partial markdown as tokens arrive; the first token replaces the "Processing" dots
+      let started = false;
+      let partial = "";
+      const showAssistant = (next: Message) => {
+        setMessages((m) => (started ? [...m.slice(0, -1), next] : [...m, next]));
+        if (!started) {
+          started = true;
+          setLoading(false);
+        }
+      };
+      for await (const { event, data } of readEventStream(res.body)) {
+        if (event === "token" && typeof data?.text === "string") {
+          partial += data.text;
+          showAssistant({ role: "assistant", content: partial });
+        } else if (event === "done") {
+          const text = data?.answer || partial || "No answer returned.";
+          const sources = Array.isArray(data?.sources) ? data.sources : [];
+          showAssistant({ role: "assistant", content: text, sources, trace: data?.trace, verified: data?.verified, plots: data?.plots });
+          if (data?.sessionId) selectSession(data.sessionId);
+        } else if (event === "error") {
+          const msg = data?.error || "Streaming failed";
+          showAssistant({ role: "assistant", content: partial ? `${partial}\n\n_${msg}_` : msg });
+        }
+      }
     } catch (e: any) {
       setMessages((m) => [...m, { role: "assistant", content: `Error: ${e?.message ?? "request failed"}` }]);
     } finally {
       setLoading(false);
+      refreshSessions();
     }
   };
 
@@ -115,6 +500,52 @@ export default function Home() {
         <p className="text-sm text-gray-700 font-medium mb-3">
           Ask questions about objectives, apparatus, procedures, or analysis — grounded in lab materials.
         </p>
+        {experiments.length > 0 && (
+          <label className="mb-3 flex items-center gap-2 text-xs font-medium text-gray-700">
+            Experiment
+            <select
+              value={experimentId}
+              onChange={(e) => setExperimentId(e.target.value)}
+              className="rounded-md border border-cyan-200 bg-white px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              style={{color: '#02263C'}}
+            >
+              <option value="">All experiments</option>
+              {experiments.map((x) => (
+                <option key={x.id} value={x.id}>{x.title}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="mb-3 flex flex-wrap items-center gap-2 text-xs font-medium">
+          {(["chat", "quiz"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`rounded-md border px-3 py-1.5 transition-all duration-200 ${mode === m ? "border-cyan-900 text-white" : "border-cyan-200 bg-white hover:bg-cyan-50"}`}
+              style={mode === m ? {backgroundColor: '#02263C'} : {color: '#02263C'}}
+              aria-pressed={mode === m}
+            >
+              {m === "chat" ? "Ask questions" : "Practice quiz"}
+            </button>
+          ))}
+          {sessionId && messages.length > 0 && (
+            <span className="ml-auto flex items-center gap-2 text-gray-600" title="Aim, apparatus, theory, procedure, observations, result and precautions from the manual, your readings and this chat">
+              {reporting ? "Drafting lab report…" : "Generate report:"}
+              {(["docx", "md"] as const).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => downloadReport(f)}
+                  disabled={reporting}
+                  className="rounded-md border border-cyan-200 bg-white px-3 py-1.5 transition-all duration-200 hover:bg-cyan-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  style={{color: '#02263C'}}
+                >
+                  {f === "docx" ? "Word" : "Markdown"}
+                </button>
+              ))}
+            </span>
+          )}
+        </div>
+        {mode === "chat" && (
         <div className="flex flex-wrap gap-2">
           {SUGGESTED.map((q) => (
             <button
@@ -127,11 +558,49 @@ export default function Home() {
             </button>
           ))}
         </div>
+        )}
       </div>
 
+      <div className="flex flex-1">
+      {/* Past conversations */}
+      <aside className="hidden w-64 shrink-0 flex-col border-r border-gray-200 bg-white md:flex">
+        <p className="px-4 pt-4 pb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Your chats</p>
+        <div className="h-[calc(100vh-280px)] overflow-y-auto px-2 pb-4">
+          {sessions.length === 0 && <p className="px-2 text-xs text-gray-500">Conversations you start are saved here.</p>}
+          {sessions.map((s) => (
+            <div
+              key={s.id}
+              className={`group mb-1 rounded-md px-2 py-2 text-xs ${s.id === sessionId ? "bg-cyan-50 border border-cyan-200" : "hover:bg-gray-50 border border-transparent"}`}
+            >
+              <button onClick={() => openSession(s.id)} disabled={loading} className="block w-full text-left disabled:cursor-not-allowed" title={s.title}>
+                <span className="block truncate font-medium" style={{color: '#02263C'}}>{s.title}</span>
+                <span className="text-gray-500">{sessionDate(s.updatedAt)} · {Math.ceil(s.messageCount / 2)} questions</span>
+              </button>
+              <div className="mt-1 flex gap-2 text-gray-500">
+                <button onClick={() => renameSession(s)} className="hover:underline">Rename</button>
+                <a href={withClient(`/api/sessions/${s.id}/export?format=md`)} className="hover:underline">Markdown</a>
+                <a href={withClient(`/api/sessions/${s.id}/export?format=pdf`)} className="hover:underline">PDF</a>
+                <button onClick={() => deleteSession(s)} className="ml-auto text-red-700 hover:underline">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+
       {/* Chat Section */}
       <section className="flex-1 p-8">
         <div className="h-[calc(100vh-320px)] overflow-hidden rounded-lg border border-gray-300 bg-white shadow-lg">
+          {mode === "quiz" ? (
+            <QuizPanel
+              experimentId={experimentId}
+              sessionId={sessionId}
+              onSession={(id) => {
+                selectSession(id);
+                refreshSessions();
+              }}
+              request={sessionFetch}
+            />
+          ) : (
           <div ref={listRef} className="h-full space-y-4 overflow-y-auto p-6 scroll-smooth">
             {messages.length === 0 && (
               <div className="grid h-full place-items-center">
@@ -169,35 +638,139 @@ export default function Home() {
                 >
                   {m.role === "assistant" ? (
                     <>
+                      {m.verified && (
+                        <p
+                          className="mb-2 inline-flex items-center gap-1 rounded-full border border-green-200 bg-green-50 px-2 py-0.5 text-[11px] font-semibold text-green-800"
+                          title={`Answer to "${m.verified.question}"`}
+                        >
+                          ✔ Verified by instructor{m.verified.verifiedBy ? ` · ${m.verified.verifiedBy}` : ""}
+                        </p>
+                      )}
                       <ReactMarkdown
                         remarkPlugins={[remarkGfm]}
                         components={{
-                          img: (props) => (
-                            <img {...props} style={{maxWidth: '100%', height: 'auto', borderRadius: 6}} />
-                          ),
-                          a: (props) => (
-                            <a {...props} target="_blank" rel="noreferrer" className="underline" />
-                          )
+                          img: ({ src, alt, title, ...props }) => {
+                            const known = imageSource(m.sources, typeof src === "string" ? src : undefined);
+                            return (
+                              <img
+                                {...props}
+                                src={src}
+                                alt={alt || known?.alt || fileLabel(src)}
+                                title={title || known?.snippet || undefined}
+                                style={{maxWidth: '100%', height: 'auto', borderRadius: 6}}
+                              />
+                            );
+                          },
+                          a: ({ href, children, ...props }) =>
+                            href?.startsWith("#cite-") ? (
+                              <a
+                                href={href}
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  showCitation(href.slice(1));
+                                }}
+                                className="align-super text-[10px] font-semibold text-cyan-800 no-underline hover:underline"
+                              >
+                                {children}
+                              </a>
+                            ) : (
+                              <a {...props} href={href} target="_blank" rel="noreferrer" className="underline">
+                                {children}
+                              </a>
+                            )
                         }}
                       >
-                        {normalizeForImages(m.content)}
+                        {linkCitations(normalizeForImages(m.content), idx, m.sources)}
                       </ReactMarkdown>
-                      {Array.isArray(m.sources) && m.sources.some((s) => /(^|\/)images\//.test(String(s))) && (
+                      {referenceList(m.sources).length > 0 && (
+                        <div className="mt-3 border-t border-gray-200 pt-2">
+                          <p className="mb-1 text-xs font-semibold text-gray-600">References</p>
+                          <ol className="space-y-1">
+                            {referenceList(m.sources).map((s) => (
+                              <li key={s.n}>
+                                <details id={citeAnchor(idx, s.n)} className="text-xs text-gray-700">
+                                  <summary className="cursor-pointer">
+                                    <span className="font-semibold">[{s.n}]</span> {s.document}
+                                    {s.section ? ` · ${s.section}` : ""}
+                                    {s.page ? ` · p. ${s.page}` : ""}
+                                    {s.url && (
+                                      <a href={s.url} target="_blank" rel="noreferrer" className="ml-1 underline">
+                                        link
+                                      </a>
+                                    )}
+                                  </summary>
+                                  <p className="mt-1 whitespace-pre-wrap rounded bg-white p-2 text-gray-600 border border-gray-200">
+                                    {s.snippet || "(no preview)"}
+                                  </p>
+                                </details>
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
+                      {(m.plots ?? []).map((p, i) => (
+                        <img key={i} src={plotDataUrl(p)} alt={`${p.title}: ${p.yLabel} against ${p.xLabel}`} className="mt-3 w-full max-w-[480px] rounded border border-gray-200" />
+                      ))}
+                      {galleryImages(m).length > 0 && (
                         <div className="mt-2 grid grid-cols-2 gap-2">
-                          {m.sources
-                            .filter((s) => /(^|\/)images\//.test(String(s)))
-                            .slice(0, 6)
-                            .map((s, i) => {
-                              const src = String(s).startsWith('/') ? String(s) : `/${String(s)}`;
-                              return (
-                                <img key={i} src={src} alt="" className="rounded border border-gray-200" style={{maxWidth: '100%', height: 'auto'}} />
-                              );
-                            })}
+                          {galleryImages(m).map((s) => (
+                            <figure key={s.n} className="m-0">
+                              <img src={s.url} alt={s.alt || s.document} title={s.snippet || undefined} className="rounded border border-gray-200" style={{maxWidth: '100%', height: 'auto'}} />
+                              <figcaption className="mt-1 text-xs text-gray-600">
+                                <span className="font-semibold">{s.document}</span>
+                                {s.snippet ? `: ${s.snippet}` : ""}
+                              </figcaption>
+                            </figure>
+                          ))}
+                        </div>
+                      )}
+                      {m.trace && (
+                        <div className="mt-2 flex items-center gap-1 text-xs text-gray-500">
+                          <span className="mr-1">Was this helpful?</span>
+                          {(["up", "down"] as Rating[]).map((r) => (
+                            <button
+                              key={r}
+                              onClick={() => rate(idx, r)}
+                              className={`rounded px-1.5 py-0.5 hover:bg-gray-200 ${m.feedback?.rating === r ? "bg-cyan-100 text-cyan-900" : ""}`}
+                              title={r === "up" ? "Good answer" : "Wrong or unhelpful answer"}
+                              aria-pressed={m.feedback?.rating === r}
+                            >
+                              {r === "up" ? "👍" : "👎"}
+                            </button>
+                          ))}
+                          {m.feedback && commenting !== idx && (
+                            <span className="ml-1">{m.feedback.comment ? "Thanks for the details." : "Thanks!"}</span>
+                          )}
+                        </div>
+                      )}
+                      {commenting === idx && (
+                        <div className="mt-2 flex gap-2">
+                          <input
+                            value={comment}
+                            onChange={(e) => setComment(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") rate(idx, "down", comment.trim());
+                            }}
+                            placeholder="What was wrong? (optional)"
+                            className="flex-1 rounded border border-gray-300 bg-white px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                          />
+                          <button onClick={() => rate(idx, "down", comment.trim())} className="rounded px-2 py-1 text-xs text-white" style={{backgroundColor: '#02263C'}}>
+                            Send
+                          </button>
+                          <button onClick={() => setCommenting(null)} className="rounded px-2 py-1 text-xs text-gray-600 hover:bg-gray-100">
+                            Skip
+                          </button>
                         </div>
                       )}
                     </>
                   ) : (
-                    <span className="whitespace-pre-wrap">{m.content}</span>
+                    <>
+                      {m.image && (
+                        <img src={withClient(m.image)} alt="Photo attached to the question" className="mb-2 max-h-48 rounded border border-white/40" />
+                      )}
+                      {m.table && <p className="mb-1 text-xs text-cyan-100">Readings: {m.table}</p>}
+                      <span className="whitespace-pre-wrap">{m.content}</span>
+                    </>
                   )}
                 </div>
                 {m.role === "user" && (
@@ -223,8 +796,35 @@ export default function Home() {
               </div>
             )}
           </div>
+          )}
         </div>
 
+        {mode === "chat" && (
+        <>
+        {/* Attached photo or readings, sent with the next question */}
+        {attachment && (
+          <div className="mt-4 flex items-center gap-3 rounded-lg border border-gray-300 bg-white p-2 shadow-sm">
+            {attachment.kind === "image" ? (
+              <img src={attachment.url} alt={`Preview of ${attachment.file.name}`} className="h-16 w-16 rounded object-cover border border-gray-200" />
+            ) : (
+              <div className="grid h-16 w-16 place-items-center rounded border border-gray-200 bg-cyan-50 text-xs font-semibold" style={{color: '#02263C'}}>
+                TABLE
+              </div>
+            )}
+            <div className="min-w-0 flex-1 text-xs text-gray-600">
+              <p className="truncate font-semibold text-gray-800">{attachment.file.name}</p>
+              <p>
+                {attachment.kind === "image"
+                  ? "Ask about this photo, or just send it to identify the component."
+                  : "Send it to get the computed results, a plot and a discussion of your readings."}
+              </p>
+            </div>
+            <button onClick={clearAttachment} className="rounded px-2 py-1 text-xs text-gray-600 hover:bg-gray-100" title="Remove attachment">
+              Remove
+            </button>
+          </div>
+        )}
+
         {/* Input Section */}
         <div className="mt-4 flex items-center gap-3 rounded-lg border border-gray-300 bg-white p-2 shadow-md transition-all duration-200 focus-within:ring-2 focus-within:border-cyan-500" style={{'--tw-ring-color': '#02263C'} as any}>
           <input
@@ -236,12 +836,36 @@ export default function Home() {
                 ask(input);
               }
             }}
-            placeholder="Type your lab question here..."
+            onPaste={pasteReadings}
+            placeholder={
+              attachment?.kind === "image"
+                ? "What would you like to know about this photo?"
+                : attachment
+                ? "Anything to check in these readings? (e.g. theoretical R = 100 Ω)"
+                : "Type your lab question here..."
+            }
             className="w-full rounded-md border-0 bg-transparent px-4 py-2.5 text-sm text-gray-800 placeholder:text-gray-500 focus:outline-none focus:ring-0"
           />
+          <input
+            ref={fileRef}
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp,.csv,.tsv,.md,.markdown,.txt,text/csv"
+            className="hidden"
+            onChange={(e) => attach(e.target.files?.[0])}
+          />
+          <button
+            onClick={() => fileRef.current?.click()}
+            disabled={loading}
+            className="grid h-10 w-10 shrink-0 place-items-center rounded-md border border-gray-300 text-gray-600 transition-all duration-200 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Attach a photo of a component or a table of readings (CSV or Markdown)"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="h-5 w-5">
+              <path d="M16.5 6v11.5a4 4 0 0 1-8 0V5a2.5 2.5 0 0 1 5 0v10.5a1 1 0 0 1-2 0V6H10v9.5a2.5 2.5 0 0 0 5 0V5a4 4 0 0 0-8 0v12.5a5.5 5.5 0 0 0 11 0V6h-1.5z" />
+            </svg>
+          </button>
           <button
             onClick={() => ask(input)}
-            disabled={loading || !input.trim()}
+            disabled={loading || (!input.trim() && !attachment)}
             className="grid h-10 w-10 shrink-0 place-items-center rounded-md text-white shadow-sm transition-all duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
             style={{backgroundColor: '#02263C'}}
             title="Send message"
@@ -251,7 +875,10 @@ export default function Home() {
             </svg>
           </button>
         </div>
+        </>
+        )}
       </section>
+      </div>
 
       {/* Footer */}
       <footer className="px-8 py-3 text-center border-t-4 border-cyan-900" style={{backgroundColor: '#02263C'}}>
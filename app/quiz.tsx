@@ -0,0 +1,208 @@
+"use client";
+
+import React from "react";
+import { SECTIONS } from "@/lib/sections";
+
+// Viva practice on the chat page: the server writes questions from the lab material and keeps
+// the answer key; the panel collects answers, shows the graded result and the session's score.
+type Source = { n: number; document: string; section?: string; page?: number; snippet: string };
+type QuizQuestion = { id: string; kind: "mcq" | "short"; prompt: string; options?: string[] };
+type QuizResult = {
+  questionId: string;
+  response: string | number | null;
+  correct: boolean;
+  answer: string;
+  explanation: string;
+  source?: Source;
+};
+type Quiz = {
+  id: string;
+  sessionId?: string;
+  title: string;
+  questions: QuizQuestion[];
+  attempt?: { results: QuizResult[]; score: number; total: number };
+};
+type Tally = { score: number; total: number; quizzes: number };
+
+type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+const button = "rounded-md px-4 py-2 text-sm font-semibold text-white shadow-sm transition-all duration-200 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export function QuizPanel({ experimentId, sessionId, onSession, request }: {
+  experimentId: string;
+  sessionId: string;
+  // A quiz started outside a saved session opens one for the score
+  onSession: (id: string) => void;
+  request: Fetcher;
+}) {
+  const [section, setSection] = React.useState("");
+  const [quiz, setQuiz] = React.useState<Quiz | null>(null);
+  const [answers, setAnswers] = React.useState<Record<string, string | number>>({});
+  const [tally, setTally] = React.useState<Tally>({ score: 0, total: 0, quizzes: 0 });
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  const refreshTally = React.useCallback(() => {
+    if (!sessionId) return setTally({ score: 0, total: 0, quizzes: 0 });
+    request(`/api/quiz?sessionId=${encodeURIComponent(sessionId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) =>
+        setTally({
+          score: Number(json?.score) || 0,
+          total: Number(json?.total) || 0,
+          quizzes: Array.isArray(json?.quizzes) ? json.quizzes.filter((q: { score: number | null }) => q.score != null).length : 0,
+        })
+      )
+      .catch(() => undefined);
+  }, [request, sessionId]);
+
+  React.useEffect(() => {
+    refreshTally();
+  }, [refreshTally]);
+
+  const send = async (url: string, body: unknown) => {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await request(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.quiz) throw new Error(json?.error || `Error ${res.status}`);
+      return json.quiz as Quiz;
+    } catch (e) {
+      setError((e as Error)?.message ?? "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const start = async () => {
+    const next = await send("/api/quiz", {
+      experimentId: experimentId || undefined,
+      section: section || undefined,
+      sessionId: sessionId || undefined,
+    });
+    if (!next) return;
+    setQuiz(next);
+    setAnswers({});
+    if (next.sessionId && next.sessionId !== sessionId) onSession(next.sessionId);
+  };
+
+  const submit = async () => {
+    if (!quiz) return;
+    const graded = await send(`/api/quiz/${quiz.id}/submit`, { answers });
+    if (!graded) return;
+    setQuiz(graded);
+    refreshTally();
+  };
+
+  const result = (id: string) => quiz?.attempt?.results.find((r) => r.questionId === id);
+  const answered = quiz ? quiz.questions.filter((q) => String(answers[q.id] ?? "").trim()).length : 0;
+
+  return (
+    <div className="h-full space-y-4 overflow-y-auto p-6">
+      <div className="flex flex-wrap items-center gap-3 text-xs font-medium text-gray-700">
+        <label className="flex items-center gap-2">
+          Section
+          <select
+            value={section}
+            onChange={(e) => setSection(e.target.value)}
+            className="rounded-md border border-cyan-200 bg-white px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            style={{color: '#02263C'}}
+          >
+            <option value="">Whole experiment</option>
+            {SECTIONS.filter((s) => s.id !== "references").map((s) => (
+              <option key={s.id} value={s.id}>{s.id[0].toUpperCase() + s.id.slice(1)}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={start} disabled={busy} className={button} style={{backgroundColor: '#02263C'}}>
+          {quiz ? "New quiz" : "Start quiz"}
+        </button>
+        <span className="ml-auto text-gray-600">
+          {tally.quizzes > 0 ? `Session score: ${tally.score}/${tally.total} over ${tally.quizzes} quiz${tally.quizzes === 1 ? "" : "zes"}` : "No quizzes graded in this session yet"}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      {busy && !quiz && <p className="text-sm text-gray-600">Writing questions from the lab material…</p>}
+      {!quiz && !busy && !error && (
+        <p className="text-sm text-gray-600">
+          Practise for your viva: pick a section (or the whole experiment) and answer questions written from the lab manual.
+        </p>
+      )}
+
+      {quiz && (
+        <div className="space-y-4">
+          <h3 className="text-base font-semibold" style={{color: '#02263C'}}>{quiz.title}</h3>
+          <ol className="space-y-4">
+            {quiz.questions.map((q, i) => {
+              const r = result(q.id);
+              return (
+                <li
+                  key={q.id}
+                  className={`rounded-lg border p-4 text-sm ${r ? (r.correct ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50") : "border-gray-200 bg-gray-50"}`}
+                >
+                  <p className="mb-2 font-medium text-gray-800">{i + 1}. {q.prompt}</p>
+                  {q.kind === "mcq" ? (
+                    <div className="space-y-1">
+                      {q.options?.map((o, j) => (
+                        <label key={j} className="flex items-start gap-2 text-gray-700">
+                          <input
+                            type="radio"
+                            name={`${quiz.id}-${q.id}`}
+                            checked={(r ? r.response : answers[q.id]) === j}
+                            disabled={!!r || busy}
+                            onChange={() => setAnswers({ ...answers, [q.id]: j })}
+                            className="mt-1"
+                          />
+                          <span>{o}</span>
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <textarea
+                      rows={2}
+                      value={r ? String(r.response ?? "") : String(answers[q.id] ?? "")}
+                      disabled={!!r || busy}
+                      onChange={(e) => setAnswers({ ...answers, [q.id]: e.target.value })}
+                      placeholder="Your answer"
+                      className="w-full rounded border border-gray-300 bg-white px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                    />
+                  )}
+                  {r && (
+                    <div className="mt-2 space-y-1 text-xs text-gray-700">
+                      <p className="font-semibold">{r.correct ? "✔ Correct" : `✘ Answer: ${r.answer}`}</p>
+                      {!r.correct && r.explanation && <p>{r.explanation}</p>}
+                      {r.source && (
+                        <details>
+                          <summary className="cursor-pointer">
+                            Source: {r.source.document}
+                            {r.source.section ? ` · ${r.source.section}` : ""}
+                            {r.source.page ? ` · p. ${r.source.page}` : ""}
+                          </summary>
+                          <p className="mt-1 whitespace-pre-wrap rounded border border-gray-200 bg-white p-2 text-gray-600">
+                            {r.source.snippet || "(no preview)"}
+                          </p>
+                        </details>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          {quiz.attempt ? (
+            <p className="text-sm font-semibold" style={{color: '#02263C'}}>
+              Score: {quiz.attempt.score}/{quiz.attempt.total}
+            </p>
+          ) : (
+            <button onClick={submit} disabled={busy || answered === 0} className={button} style={{backgroundColor: '#02263C'}}>
+              Submit answers ({answered}/{quiz.questions.length})
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
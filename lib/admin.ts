@@ -0,0 +1,13 @@
+import crypto from "crypto";
+
+// Hashed first so both buffers have the same length and the comparison is constant-time
+const digest = (s: string) => crypto.createHash("sha256").update(s).digest();
+
+// Review pages and their API routes (feedback, FAQ) are for instructors. Requests carry
+// ADMIN_TOKEN as a Bearer token; without ADMIN_TOKEN they are only open in development.
+export function adminError(req: Request): string | null {
+  const token = process.env.ADMIN_TOKEN || "";
+  if (!token) return process.env.NODE_ENV === "production" ? "Admin routes are disabled: set ADMIN_TOKEN" : null;
+  const sent = (req.headers.get("authorization") || "").replace(/^Bearer\s+/i, "").trim();
+  return crypto.timingSafeEqual(digest(sent), digest(token)) ? null : "Missing or invalid admin token";
+}
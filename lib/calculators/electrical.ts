@@ -0,0 +1,318 @@
+import { formatQuantity as fq, valuesOf, type Quantity, type Unit } from "./units";
+import type { Calculator } from "./types";
+
+// Resistances may be written without the Ω ("10k resistor")
+const resistances = (qs: Quantity[]) => {
+  const ohms = valuesOf(qs, "Ω");
+  return ohms.length ? ohms : qs.filter((q) => q.unit === "" && q.prefixOnly);
+};
+
+// Primary and secondary of a pair: labels (Vp/V1, Ns/N2 ...) win, otherwise order of mention
+function primarySecondary(qs: Quantity[], symbol: string) {
+  const isP = (q: Quantity) => Boolean(q.label && new RegExp(`^${symbol}_?(p|1)$`).test(q.label));
+  const isS = (q: Quantity) => Boolean(q.label && new RegExp(`^${symbol}_?(s|2)$`).test(q.label));
+  const primary = qs.find(isP) ?? qs.find((q) => !isS(q));
+  const secondary = qs.find(isS) ?? qs.find((q) => q !== primary && !isP(q));
+  return [primary, secondary] as const;
+}
+
+const ohmsLaw: Calculator = {
+  id: "ohms-law",
+  intent: /\bohm'?s\s+law\b|\b(voltage|current|resistance|power)\b|\bhow\s+(much|many)\s+(amps?|volts?|watts?|ohms?)\b/i,
+  solve(qs) {
+    const V = valuesOf(qs, "V")[0]?.value;
+    const I = valuesOf(qs, "A")[0]?.value;
+    const R = resistances(qs)[0]?.value;
+    const P = valuesOf(qs, "W")[0]?.value;
+    const known = [V, I, R, P].filter((x) => x != null).length;
+    if (known !== 2) return null;
+    const given: string[] = [];
+    if (V != null) given.push(`V = ${fq(V, "V")}`);
+    if (I != null) given.push(`I = ${fq(I, "A")}`);
+    if (R != null) given.push(`R = ${fq(R, "Ω")}`);
+    if (P != null) given.push(`P = ${fq(P, "W")}`);
+    const steps: string[] = [];
+    const result: string[] = [];
+    const out = (name: string, formula: string, value: number, unit: Unit) => {
+      steps.push(`${name} = ${formula} = ${fq(value, unit)}`);
+      result.push(`${name} = ${fq(value, unit)}`);
+    };
+    if (V != null && I != null) {
+      if (I === 0) return null;
+      out("R", `V / I = ${fq(V, "V")} / ${fq(I, "A")}`, V / I, "Ω");
+      out("P", `V × I = ${fq(V, "V")} × ${fq(I, "A")}`, V * I, "W");
+    } else if (V != null && R != null) {
+      if (R === 0) return null;
+      out("I", `V / R = ${fq(V, "V")} / ${fq(R, "Ω")}`, V / R, "A");
+      out("P", `V² / R = (${fq(V, "V")})² / ${fq(R, "Ω")}`, (V * V) / R, "W");
+    } else if (I != null && R != null) {
+      out("V", `I × R = ${fq(I, "A")} × ${fq(R, "Ω")}`, I * R, "V");
+      out("P", `I² × R = (${fq(I, "A")})² × ${fq(R, "Ω")}`, I * I * R, "W");
+    } else if (P != null && V != null) {
+      if (V === 0 || P === 0) return null;
+      out("I", `P / V = ${fq(P, "W")} / ${fq(V, "V")}`, P / V, "A");
+      out("R", `V² / P = (${fq(V, "V")})² / ${fq(P, "W")}`, (V * V) / P, "Ω");
+    } else if (P != null && I != null) {
+      if (I === 0 || P === 0) return null;
+      out("V", `P / I = ${fq(P, "W")} / ${fq(I, "A")}`, P / I, "V");
+      out("R", `P / I² = ${fq(P, "W")} / (${fq(I, "A")})²`, P / (I * I), "Ω");
+    } else if (P != null && R != null) {
+      if (R === 0) return null;
+      out("I", `√(P / R) = √(${fq(P, "W")} / ${fq(R, "Ω")})`, Math.sqrt(P / R), "A");
+      out("V", `√(P × R) = √(${fq(P, "W")} × ${fq(R, "Ω")})`, Math.sqrt(P * R), "V");
+    }
+    return { title: "Ohm's law (V = I × R, P = V × I)", given, steps, result: result.join(", ") };
+  },
+};
+
+// Series resistors and inductors add; capacitors add in parallel
+const combination: Calculator = {
+  id: "combination",
+  intent: /\b(series|parallel)\b/i,
+  solve(qs, question) {
+    const series = /\bseries\b/i.test(question);
+    const parallel = /\bparallel\b/i.test(question);
+    // "R1 in series with R2 || R3" needs a circuit diagram, not a one-line formula
+    if (series === parallel) return null;
+    const caps = valuesOf(qs, "F");
+    const inds = valuesOf(qs, "H");
+    const res = resistances(qs);
+    const [items, unit, sym, name] =
+      caps.length >= 2
+        ? [caps, "F" as const, "C", "capacitors"]
+        : inds.length >= 2
+        ? [inds, "H" as const, "L", "inductors"]
+        : [res, "Ω" as const, "R", "resistors"];
+    if (items.length < 2) return null;
+    const values = items.map((q) => q.value);
+    if (values.some((v) => v <= 0)) return null;
+    const given = values.map((v, i) => `${sym}${i + 1} = ${fq(v, unit)}`);
+    const names = values.map((_v, i) => `${sym}${i + 1}`);
+    const sum = values.reduce((a, b) => a + b, 0);
+    const reciprocal = 1 / values.reduce((a, b) => a + 1 / b, 0);
+    // Capacitors combine the opposite way round
+    const adds = (unit === "F") === parallel;
+    const total = adds ? sum : reciprocal;
+    const steps = adds
+      ? [`${sym}eq = ${names.join(" + ")} = ${values.map((v) => fq(v, unit)).join(" + ")} = ${fq(total, unit)}`]
+      : [
+          `1/${sym}eq = ${names.map((n) => `1/${n}`).join(" + ")}`,
+          `1/${sym}eq = ${values.map((v) => `1/${fq(v, unit)}`).join(" + ")} = ${fq(1 / total, "")} ${unit}⁻¹`,
+          `${sym}eq = ${fq(total, unit)}`,
+        ];
+    if (!adds && values.length === 2) {
+      steps.push(`Check: ${names.join(" × ")} / (${names.join(" + ")}) = ${fq(total, unit)}`);
+    }
+    return {
+      title: `${parallel ? "Parallel" : "Series"} ${name}`,
+      given,
+      steps,
+      result: `${sym}eq = ${fq(total, unit)}`,
+    };
+  },
+};
+
+const reactance: Calculator = {
+  id: "reactance",
+  intent: /\breactance\b|\bx_?[cl]\b|\bimpedance\b/i,
+  solve(qs, question) {
+    const f = valuesOf(qs, "Hz")[0]?.value;
+    const C = valuesOf(qs, "F")[0]?.value;
+    const L = valuesOf(qs, "H")[0]?.value;
+    if (f == null || f <= 0 || (C == null && L == null)) return null;
+    const given = [`f = ${fq(f, "Hz")}`];
+    const steps: string[] = [];
+    const result: string[] = [];
+    let XC: number | undefined;
+    let XL: number | undefined;
+    if (C != null && C > 0) {
+      given.push(`C = ${fq(C, "F")}`);
+      XC = 1 / (2 * Math.PI * f * C);
+      steps.push(`XC = 1 / (2πfC) = 1 / (2π × ${fq(f, "Hz")} × ${fq(C, "F")}) = ${fq(XC, "Ω")}`);
+      result.push(`XC = ${fq(XC, "Ω")}`);
+    }
+    if (L != null && L > 0) {
+      given.push(`L = ${fq(L, "H")}`);
+      XL = 2 * Math.PI * f * L;
+      steps.push(`XL = 2πfL = 2π × ${fq(f, "Hz")} × ${fq(L, "H")} = ${fq(XL, "Ω")}`);
+      result.push(`XL = ${fq(XL, "Ω")}`);
+    }
+    if (!steps.length) return null;
+    const R = resistances(qs)[0]?.value;
+    if (/\bimpedance\b/i.test(question) && R != null) {
+      given.push(`R = ${fq(R, "Ω")}`);
+      const X = (XL ?? 0) - (XC ?? 0);
+      const Z = Math.sqrt(R * R + X * X);
+      const phase = (Math.atan2(X, R) * 180) / Math.PI;
+      steps.push(`X = XL − XC = ${fq(X, "Ω")}`, `Z = √(R² + X²) = ${fq(Z, "Ω")}`, `φ = atan(X / R) = ${phase.toFixed(2)}°`);
+      result.push(`Z = ${fq(Z, "Ω")} at ${phase.toFixed(2)}°`);
+    }
+    return { title: "Reactance", given, steps, result: result.join(", ") };
+  },
+};
+
+const timeConstant: Calculator = {
+  id: "time-constant",
+  intent: /time\s+constant|\btau\b|τ|\b(charg|discharg)(e|es|ed|ing)\b/i,
+  solve(qs) {
+    const R = resistances(qs)[0]?.value;
+    const C = valuesOf(qs, "F")[0]?.value;
+    const L = valuesOf(qs, "H")[0]?.value;
+    if (R == null || R <= 0) return null;
+    if (C != null) {
+      const tau = R * C;
+      return {
+        title: "RC time constant",
+        given: [`R = ${fq(R, "Ω")}`, `C = ${fq(C, "F")}`],
+        steps: [
+          `τ = R × C = ${fq(R, "Ω")} × ${fq(C, "F")} = ${fq(tau, "s")}`,
+          `After 1τ the capacitor reaches 63.2% of the supply voltage; after 5τ = ${fq(5 * tau, "s")} it is practically fully charged (99.3%)`,
+        ],
+        result: `τ = ${fq(tau, "s")}`,
+      };
+    }
+    if (L != null) {
+      const tau = L / R;
+      return {
+        title: "RL time constant",
+        given: [`R = ${fq(R, "Ω")}`, `L = ${fq(L, "H")}`],
+        steps: [
+          `τ = L / R = ${fq(L, "H")} / ${fq(R, "Ω")} = ${fq(tau, "s")}`,
+          `After 1τ the current reaches 63.2% of its final value; after 5τ = ${fq(5 * tau, "s")} it has practically settled`,
+        ],
+        result: `τ = ${fq(tau, "s")}`,
+      };
+    }
+    return null;
+  },
+};
+
+// a = Np / Ns = Vp / Vs = Is / Ip; any three of Np, Ns, Vp, Vs give the fourth
+const transformer: Calculator = {
+  id: "transformer",
+  intent: /\btransformer\b|\bturns?\s+ratio\b/i,
+  solve(qs) {
+    const turns = qs.filter((q) => q.unit === "turns");
+    const volts = valuesOf(qs, "V");
+    const amps = valuesOf(qs, "A");
+    const [Npq, Nsq] = primarySecondary(turns, "n");
+    const [Vpq, Vsq] = primarySecondary(volts, "v");
+    let [Np, Ns, Vp, Vs] = [Npq?.value, Nsq?.value, Vpq?.value, Vsq?.value];
+    const given = [
+      Np != null && `Np = ${fq(Np, "turns")}`,
+      Ns != null && `Ns = ${fq(Ns, "turns")}`,
+      Vp != null && `Vp = ${fq(Vp, "V")}`,
+      Vs != null && `Vs = ${fq(Vs, "V")}`,
+    ].filter(Boolean) as string[];
+    const steps: string[] = [];
+    let a: number | undefined;
+    if (Np && Ns) {
+      a = Np / Ns;
+      steps.push(`a = Np / Ns = ${fq(Np, "")} / ${fq(Ns, "")} = ${fq(a, "")}`);
+    } else if (Vp && Vs) {
+      a = Vp / Vs;
+      steps.push(`a = Vp / Vs = ${fq(Vp, "V")} / ${fq(Vs, "V")} = ${fq(a, "")}`);
+    }
+    if (a == null || !Number.isFinite(a) || a <= 0) return null;
+    if (Vp != null && Vs == null) {
+      Vs = Vp / a;
+      steps.push(`Vs = Vp / a = ${fq(Vp, "V")} / ${fq(a, "")} = ${fq(Vs, "V")}`);
+    } else if (Vs != null && Vp == null) {
+      Vp = Vs * a;
+      steps.push(`Vp = Vs × a = ${fq(Vs, "V")} × ${fq(a, "")} = ${fq(Vp, "V")}`);
+    }
+    if (Np != null && Ns == null) {
+      Ns = Np / a;
+      steps.push(`Ns = Np / a = ${fq(Np, "")} / ${fq(a, "")} = ${fq(Ns, "turns")}`);
+    } else if (Ns != null && Np == null) {
+      Np = Ns * a;
+      steps.push(`Np = Ns × a = ${fq(Ns, "")} × ${fq(a, "")} = ${fq(Np, "turns")}`);
+    }
+    const result = [`turns ratio ${fq(a, "")} : 1 (step-${a > 1 ? "down" : a < 1 ? "up" : "isolation"})`];
+    if (Vs != null && Vp != null) result.push(`Vp = ${fq(Vp, "V")}`, `Vs = ${fq(Vs, "V")}`);
+    if (Np != null && Ns != null && (!Npq || !Nsq)) result.push(`Np = ${fq(Np, "turns")}`, `Ns = ${fq(Ns, "turns")}`);
+    // Ideal transformer: currents scale the other way
+    const Isq = amps.find((q) => q.label && /^i_?(s|2)$/.test(q.label));
+    const Ipq = Isq ? undefined : amps[0];
+    if (Isq) {
+      given.push(`Is = ${fq(Isq.value, "A")}`);
+      steps.push(`Ip = Is / a = ${fq(Isq.value, "A")} / ${fq(a, "")} = ${fq(Isq.value / a, "A")}`);
+      result.push(`Ip = ${fq(Isq.value / a, "A")}`);
+    } else if (Ipq) {
+      given.push(`Ip = ${fq(Ipq.value, "A")}`);
+      steps.push(`Is = Ip × a = ${fq(Ipq.value, "A")} × ${fq(a, "")} = ${fq(Ipq.value * a, "A")}`);
+      result.push(`Is = ${fq(Ipq.value * a, "A")}`);
+    }
+    return { title: "Transformer turns ratio (ideal)", given, steps, result: result.join(", ") };
+  },
+};
+
+// Meter resistance: labelled Rm/Rg/G, else the first resistance given
+const meterResistance = (qs: Quantity[]) => {
+  const res = resistances(qs);
+  return (res.find((q) => q.label && /^(r_?[mg]|g)$/.test(q.label)) ?? res[0])?.value;
+};
+
+// Ammeter shunt: the meter carries Ig at full scale, the shunt the rest of the range I
+const shunt: Calculator = {
+  id: "ammeter-shunt",
+  intent: /\bshunt\b|\b(galvanometer|meter|ammeter)\b[^.?]*\b(ammeter|range|extend|convert)/i,
+  solve(qs, question) {
+    if (/\bvoltmeter\b/i.test(question) && !/\bshunt\b/i.test(question)) return null;
+    const Rm = meterResistance(qs);
+    const amps = valuesOf(qs, "A").map((q) => q.value).sort((a, b) => a - b);
+    if (Rm == null || amps.length < 2) return null;
+    const Ig = amps[0];
+    const I = amps[amps.length - 1];
+    if (I <= Ig) return null;
+    const Vm = Ig * Rm;
+    const Ish = I - Ig;
+    const Rsh = Vm / Ish;
+    return {
+      title: "Ammeter shunt",
+      given: [`Rm = ${fq(Rm, "Ω")}`, `Ig (full-scale) = ${fq(Ig, "A")}`, `I (range) = ${fq(I, "A")}`],
+      steps: [
+        `Voltage across the meter at full scale: Vm = Ig × Rm = ${fq(Ig, "A")} × ${fq(Rm, "Ω")} = ${fq(Vm, "V")}`,
+        `Shunt current: Ish = I − Ig = ${fq(I, "A")} − ${fq(Ig, "A")} = ${fq(Ish, "A")}`,
+        `Rsh = Vm / Ish = Ig × Rm / (I − Ig) = ${fq(Rsh, "Ω")} (in parallel with the meter)`,
+      ],
+      result: `Rsh = ${fq(Rsh, "Ω")}`,
+    };
+  },
+};
+
+// Voltmeter multiplier: series resistance so the full-scale current flows at the range voltage
+const multiplier: Calculator = {
+  id: "voltmeter-multiplier",
+  intent: /\bmultiplier\b|\b(galvanometer|meter|voltmeter)\b[^.?]*\b(voltmeter|range|extend|convert)/i,
+  solve(qs) {
+    const Rm = meterResistance(qs);
+    const volts = valuesOf(qs, "V").map((q) => q.value).sort((a, b) => a - b);
+    const amp = valuesOf(qs, "A")[0]?.value;
+    if (Rm == null || !volts.length) return null;
+    const V = volts[volts.length - 1];
+    const steps: string[] = [];
+    let Ig = amp;
+    // Meter rated by its full-scale voltage instead of current
+    if (Ig == null && volts.length >= 2 && Rm > 0) {
+      Ig = volts[0] / Rm;
+      steps.push(`Full-scale current: Ig = Vm / Rm = ${fq(volts[0], "V")} / ${fq(Rm, "Ω")} = ${fq(Ig, "A")}`);
+    }
+    if (Ig == null || Ig <= 0) return null;
+    const Rs = V / Ig - Rm;
+    if (Rs <= 0) return null;
+    steps.push(
+      `Total resistance for the range: Rt = V / Ig = ${fq(V, "V")} / ${fq(Ig, "A")} = ${fq(V / Ig, "Ω")}`,
+      `Rs = Rt − Rm = ${fq(V / Ig, "Ω")} − ${fq(Rm, "Ω")} = ${fq(Rs, "Ω")} (in series with the meter)`
+    );
+    return {
+      title: "Voltmeter multiplier",
+      given: [`Rm = ${fq(Rm, "Ω")}`, amp != null ? `Ig (full-scale) = ${fq(amp, "A")}` : `Vm (full-scale) = ${fq(volts[0], "V")}`, `V (range) = ${fq(V, "V")}`],
+      steps,
+      result: `Rs = ${fq(Rs, "Ω")}`,
+    };
+  },
+};
+
+// Most specific first: a shunt question also mentions "current", a time-constant one "resistance"
+export const ELECTRICAL_CALCULATORS: Calculator[] = [shunt, multiplier, transformer, timeConstant, reactance, combination, ohmsLaw];
@@ -0,0 +1,42 @@
+import { ELECTRICAL_CALCULATORS } from "./electrical";
+import { resistorColorCode } from "./resistorCode";
+import { parseQuantities } from "./units";
+import type { Calculation, Calculator } from "./types";
+
+export type * from "./types";
+export { formatQuantity, parseQuantities, type Quantity, type Unit } from "./units";
+export { decodeResistorBands, encodeResistor, nearestStandardValue } from "./resistorCode";
+
+// Tried in order; the first calculator whose intent matches and that has enough values answers
+const CALCULATORS: Calculator[] = [resistorColorCode, ...ELECTRICAL_CALCULATORS];
+
+// Calculators whose intent the question matches (before checking the values it gives)
+export function detectCalculators(question: string): string[] {
+  return CALCULATORS.filter((c) => c.intent.test(question)).map((c) => c.id);
+}
+
+export function renderCalculation(c: Calculation): string {
+  return [
+    `**${c.title}**`,
+    "",
+    `Given: ${c.given.join(", ")}`,
+    "",
+    ...c.steps.map((s, i) => `${i + 1}. ${s}`),
+    "",
+    `**Result:** ${c.result}`,
+    ...(c.note ? ["", `_${c.note}_`] : []),
+  ].join("\n");
+}
+
+// Exact worked answer for a numeric question, or null when no calculator applies
+export function solveCalculation(question: string): { calculator: string; calculation: Calculation; answer: string } | null {
+  const candidates = CALCULATORS.filter((c) => c.intent.test(question));
+  if (!candidates.length) return null;
+  // Calculators check their own inputs: colour-band decoding needs no numbers at all
+  const quantities = parseQuantities(question);
+  for (const c of candidates) {
+    const calculation = c.solve(quantities, question);
+    if (calculation) return { calculator: c.id, calculation, answer: renderCalculation(calculation) };
+  }
+  return null;
+}
@@ -0,0 +1,227 @@
+import { formatQuantity, parseQuantities, trimNumber } from "./units";
+import type { Calculation, Calculator } from "./types";
+
+// IEC 60062 colour code: digit, multiplier exponent, tolerance (%) and temperature coefficient (ppm/K)
+type BandColor = { name: string; digit?: number; exponent: number; tolerance?: number; tempco?: number };
+
+const COLORS: BandColor[] = [
+  { name: "Black", digit: 0, exponent: 0, tempco: 250 },
+  { name: "Brown", digit: 1, exponent: 1, tolerance: 1, tempco: 100 },
+  { name: "Red", digit: 2, exponent: 2, tolerance: 2, tempco: 50 },
+  { name: "Orange", digit: 3, exponent: 3, tolerance: 0.05, tempco: 15 },
+  { name: "Yellow", digit: 4, exponent: 4, tolerance: 0.02, tempco: 25 },
+  { name: "Green", digit: 5, exponent: 5, tolerance: 0.5, tempco: 20 },
+  { name: "Blue", digit: 6, exponent: 6, tolerance: 0.25, tempco: 10 },
+  { name: "Violet", digit: 7, exponent: 7, tolerance: 0.1, tempco: 5 },
+  { name: "Grey", digit: 8, exponent: 8, tolerance: 0.01, tempco: 1 },
+  { name: "White", digit: 9, exponent: 9 },
+  { name: "Gold", exponent: -1, tolerance: 5 },
+  { name: "Silver", exponent: -2, tolerance: 10 },
+];
+
+const ALIASES: Record<string, string> = { gray: "grey", purple: "violet", golden: "gold" };
+
+const COLOR_WORDS = "black|brown|red|orange|yellow|green|blue|violet|purple|grey|gray|white|gold|golden|silver";
+const COLOR_WORD_RE = new RegExp(`\\b(${COLOR_WORDS})\\b`, "gi");
+
+export function colorByName(word: string): BandColor | undefined {
+  const key = word.toLowerCase();
+  const name = ALIASES[key] ?? key;
+  return COLORS.find((c) => c.name.toLowerCase() === name);
+}
+
+// Colour words in the order they appear ("brown-black-red-gold", "Brown, Black, Red and Gold")
+export const colorWords = (text: string) => [...text.matchAll(COLOR_WORD_RE)].map((m) => m[1]);
+
+const digitColor = (d: number) => COLORS.find((c) => c.digit === d)!;
+const multiplierColor = (exp: number) => COLORS.find((c) => c.exponent === exp);
+const toleranceColor = (tol: number) => COLORS.find((c) => c.tolerance === tol);
+const formatPercent = (tol: number) => `±${trimNumber(tol)}%`;
+
+export type DecodedResistor = { ohms: number; tolerance: number; tempco?: number; bands: string[] };
+
+// 3-band: 2 digits + multiplier (±20%); 4-band adds tolerance; 5-band has 3 digits; 6-band adds tempco
+export function decodeResistorBands(words: string[]): DecodedResistor | { error: string } {
+  const bands = words.map((w) => colorByName(w));
+  const unknown = words.find((_w, i) => !bands[i]);
+  if (unknown) return { error: `"${unknown}" is not a resistor colour` };
+  const colors = bands as BandColor[];
+  if (colors.length < 3 || colors.length > 6) return { error: `expected 3 to 6 bands, got ${colors.length}` };
+  // Gold/Silver are never the first band: the sequence was read from the wrong end
+  if (colors[0].digit == null && colors[colors.length - 1].digit != null) {
+    return decodeResistorBands([...words].reverse());
+  }
+  const digitCount = colors.length >= 5 ? 3 : 2;
+  const digits = colors.slice(0, digitCount);
+  const bad = digits.find((c) => c.digit == null);
+  if (bad) return { error: `${bad.name} cannot be a digit band` };
+  const mult = colors[digitCount];
+  const tolBand = colors[digitCount + 1];
+  if (tolBand && tolBand.tolerance == null) return { error: `${tolBand.name} is not a tolerance colour` };
+  const tcBand = colors[digitCount + 2];
+  if (tcBand && tcBand.tempco == null) return { error: `${tcBand.name} is not a temperature coefficient colour` };
+  const significant = Number(digits.map((c) => c.digit).join(""));
+  return {
+    ohms: Number((significant * 10 ** mult.exponent).toPrecision(6)),
+    tolerance: tolBand?.tolerance ?? 20,
+    tempco: tcBand?.tempco,
+    bands: colors.map((c) => c.name),
+  };
+}
+
+// E-series preferred values. E12/E24 are historical tables; E48 and up follow the formula
+const E24 = [10, 11, 12, 13, 15, 16, 18, 20, 22, 24, 27, 30, 33, 36, 39, 43, 47, 51, 56, 62, 68, 75, 82, 91];
+const eSeries = (n: number): number[] => {
+  if (n === 24) return E24;
+  if (n === 12) return E24.filter((_v, i) => i % 2 === 0);
+  if (n === 6) return E24.filter((_v, i) => i % 4 === 0);
+  // E192 keeps 920 where the formula gives 919
+  return Array.from({ length: n }, (_v, i) => Math.round(10 ** (2 + i / n))).map((v) => (n === 192 && v === 919 ? 920 : v));
+};
+
+// Series matching a tolerance: ±20% E6, ±10% E12, ±5% E24, ±2% E48, ±1% E96, tighter E192
+export const seriesForTolerance = (tol: number) =>
+  tol >= 20 ? 6 : tol >= 10 ? 12 : tol >= 5 ? 24 : tol >= 2 ? 48 : tol >= 1 ? 96 : 192;
+
+// Closest preferred value (by ratio, as the series are logarithmic)
+export function nearestStandardValue(ohms: number, series: number): number {
+  const decade = Math.floor(Math.log10(ohms));
+  const base = series <= 24 ? 10 : 100;
+  let best = ohms;
+  let bestRatio = Infinity;
+  for (const d of [decade - 1, decade, decade + 1]) {
+    for (const m of eSeries(series)) {
+      const v = Number(((m / base) * 10 ** d).toPrecision(6));
+      const ratio = Math.abs(Math.log(v / ohms));
+      if (ratio < bestRatio) {
+        best = v;
+        bestRatio = ratio;
+      }
+    }
+  }
+  return best;
+}
+
+export type EncodedResistor = { bands: string[]; digits: number[]; exponent: number; ohms: number; rounded: boolean };
+
+// 4-band: 2 significant digits, 5-band: 3; multipliers from Silver (×0.01) to White (×10^9)
+export function encodeResistor(ohms: number, digitCount: 2 | 3, tolerance = 5): EncodedResistor | null {
+  if (!Number.isFinite(ohms) || ohms <= 0) return null;
+  let exponent = Math.floor(Math.log10(ohms)) - (digitCount - 1);
+  let significant = Math.round(ohms / 10 ** exponent);
+  if (significant >= 10 ** digitCount) {
+    significant /= 10;
+    exponent++;
+  }
+  const mult = multiplierColor(exponent);
+  const tol = toleranceColor(tolerance);
+  if (!mult || !tol) return null;
+  const digits = String(significant).padStart(digitCount, "0").split("").map(Number);
+  const encoded = Number((significant * 10 ** exponent).toPrecision(6));
+  return {
+    bands: [...digits.map((d) => digitColor(d).name), mult.name, tol.name],
+    digits,
+    exponent,
+    ohms: encoded,
+    rounded: Math.abs(encoded - ohms) > ohms * 1e-9,
+  };
+}
+
+const multiplierText = (exp: number) => (exp >= 0 ? `×10^${exp}` : `×${10 ** exp}`);
+
+function decodeCalculation(words: string[]): Calculation | null {
+  const decoded = decodeResistorBands(words);
+  if ("error" in decoded) {
+    return { title: "Resistor color code", given: words, steps: [`Cannot decode: ${decoded.error}.`], result: "invalid band sequence" };
+  }
+  const { ohms, tolerance, tempco, bands } = decoded;
+  const digitCount = bands.length >= 5 ? 3 : 2;
+  const colors = bands.map((b) => colorByName(b)!);
+  const steps = [
+    `Digits: ${colors.slice(0, digitCount).map((c) => `${c.name} = ${c.digit}`).join(", ")} → ${colors.slice(0, digitCount).map((c) => c.digit).join("")}`,
+    `Multiplier: ${colors[digitCount].name} = ${multiplierText(colors[digitCount].exponent)} → ${formatQuantity(ohms, "Ω")}`,
+    bands.length > digitCount + 1
+      ? `Tolerance: ${bands[digitCount + 1]} = ${formatPercent(tolerance)} → ${formatQuantity(ohms * (1 - tolerance / 100), "Ω")} to ${formatQuantity(ohms * (1 + tolerance / 100), "Ω")}`
+      : `No tolerance band: ${formatPercent(tolerance)}`,
+  ];
+  if (tempco != null) steps.push(`Temperature coefficient: ${bands[digitCount + 2]} = ${tempco} ppm/K`);
+  if (words.length && colorByName(words[0])?.digit == null) steps.unshift("Read from the other end (a Gold/Silver band is always last).");
+  return {
+    title: `Resistor color code (${bands.length}-band)`,
+    given: [bands.join(" - ")],
+    steps,
+    result: `${formatQuantity(ohms, "Ω")} ${formatPercent(tolerance)}${tempco != null ? `, ${tempco} ppm/K` : ""}`,
+  };
+}
+
+function encodeCalculation(question: string): Calculation | null {
+  const tolMatch = question.match(/±?\s*(\d+(?:\.\d+)?)\s*%/);
+  const tolerance = tolMatch ? Number(tolMatch[1]) : 5;
+  const bandMatch = question.match(/\b([45])\s*-?\s*bands?\b/i);
+  // Strip "5%", "4-band" and "ppm" figures so they are not read as resistances
+  const values = [
+    ...new Set(
+      parseQuantities(question.replace(/±?\s*\d+(?:\.\d+)?\s*%/g, " ").replace(/\b\d\s*-?\s*bands?\b/gi, " ").replace(/\d+\s*ppm/gi, " "), "Ω")
+        .filter((q) => q.unit === "Ω" || (q.unit === "" && (q.prefixOnly || !q.label)))
+        .map((q) => q.value)
+    ),
+  ];
+  if (!values.length) return null;
+  const tolColor = toleranceColor(tolerance);
+  const tol = tolColor ? tolerance : 5;
+  const layouts: Array<2 | 3> = bandMatch ? [bandMatch[1] === "4" ? 2 : 3] : [2, 3];
+  const given: string[] = [];
+  const steps: string[] = [];
+  const result: string[] = [];
+  const notes: string[] = [];
+  if (!tolColor) {
+    const options = COLORS.map((c) => c.tolerance).filter((t): t is number => t != null).sort((a, b) => b - a);
+    notes.push(`There is no colour band for ${formatPercent(tolerance)}; ±5% is shown (available: ${options.map(formatPercent).join(", ")}).`);
+  }
+  const series = seriesForTolerance(tol);
+  for (const ohms of values) {
+    const lines: string[] = [];
+    for (const digitCount of layouts) {
+      const enc = encodeResistor(ohms, digitCount, tol);
+      if (!enc) continue;
+      const label = digitCount === 2 ? "4‑band" : "5‑band";
+      steps.push(
+        `${formatQuantity(ohms, "Ω")}, ${label}: ${enc.digits.join("")} ${multiplierText(enc.exponent)} → ` +
+          `${enc.bands.slice(0, -1).map((b, i) => (i < digitCount ? `${b} (${enc.digits[i]})` : `${b} (${multiplierText(enc.exponent)})`)).join(", ")}, ` +
+          `${enc.bands[enc.bands.length - 1]} (${formatPercent(tol)})` +
+          (enc.rounded ? ` (rounded to ${formatQuantity(enc.ohms, "Ω")})` : "")
+      );
+      lines.push(`  - ${label}: ${enc.bands.join(" - ")}`);
+    }
+    if (!lines.length) continue;
+    given.push(formatQuantity(ohms, "Ω"));
+    result.push(`- ${formatQuantity(ohms, "Ω")} ${formatPercent(tol)}:\n${lines.join("\n")}`);
+    const standard = nearestStandardValue(ohms, series);
+    if (Math.abs(standard - ohms) > ohms * 1e-9) {
+      notes.push(`${formatQuantity(ohms, "Ω")} is not an E${series} value; the nearest standard resistor is ${formatQuantity(standard, "Ω")}.`);
+    }
+  }
+  if (!result.length) return null;
+  return {
+    title: "Resistor color code",
+    given,
+    steps,
+    result: `\n${result.join("\n")}`,
+    note: notes.join(" ") || undefined,
+  };
+}
+
+// "What is the color code of 4.7k?" encodes; "brown black red gold is what value?" decodes
+export const resistorColorCode: Calculator = {
+  id: "resistor-color-code",
+  // Colour words alone ("red, yellow and blue phases") are not enough; a resistor must be in question
+  intent: new RegExp(
+    `colou?r\\s*cod(?:e|ing)|\\bbands?\\b|\\bresistors?\\b[^.?!]*\\b(?:${COLOR_WORDS})\\b|\\b(?:${COLOR_WORDS})\\b[^.?!]*\\b(?:resistors?|value|ohms?)\\b`,
+    "i"
+  ),
+  solve(_qs, question) {
+    const words = colorWords(question);
+    if (words.length >= 3) return decodeCalculation(words);
+    return encodeCalculation(question);
+  },
+};
@@ -0,0 +1,11 @@
+import type { Quantity } from "./units";
+
+// A worked answer: what was given, each step with its numbers, and the final value(s)
+export type Calculation = { title: string; given: string[]; steps: string[]; result: string; note?: string };
+
+export type Calculator = {
+  id: string;
+  // Questions this calculator may answer; `solve` still returns null when values are missing
+  intent: RegExp;
+  solve: (quantities: Quantity[], question: string) => Calculation | null;
+};
@@ -0,0 +1,93 @@
+// Quantities mentioned in a question ("4.7 kΩ", "10uF", "Vp = 230 V", "500 turns").
+// `unit` is "" for a bare number; a prefix with no unit ("10k") keeps `prefixOnly` so
+// resistor questions can still read it as ohms.
+export type Unit = "Ω" | "F" | "H" | "Hz" | "V" | "A" | "s" | "W" | "turns";
+
+export type Quantity = {
+  value: number;
+  unit: Unit | "";
+  // Symbol written before "=" or ":" ("R1", "Vp"), lower-cased
+  label?: string;
+  prefixOnly?: boolean;
+  raw: string;
+};
+
+const PREFIXES: Record<string, number> = {
+  p: 1e-12, pico: 1e-12,
+  n: 1e-9, nano: 1e-9,
+  u: 1e-6, "µ": 1e-6, "μ": 1e-6, micro: 1e-6,
+  m: 1e-3, milli: 1e-3,
+  k: 1e3, K: 1e3, kilo: 1e3,
+  M: 1e6, mega: 1e6,
+  G: 1e9, giga: 1e9,
+};
+
+const UNIT_WORDS: Array<[RegExp, Unit]> = [
+  [/^(Ω|ohms?)$/i, "Ω"],
+  [/^(F|farads?)$/, "F"],
+  [/^(Hz|hertz)$/i, "Hz"],
+  [/^(H|henr(y|ys|ies))$/, "H"],
+  [/^(V|volts?)$/, "V"],
+  [/^(A|amps?|amperes?)$/, "A"],
+  [/^(s|secs?|seconds?)$/, "s"],
+  [/^(W|watts?)$/, "W"],
+  [/^turns?$/i, "turns"],
+];
+
+// Units a label implies when the number has none ("R = 100", "Np = 500")
+const LABEL_UNITS: Array<[RegExp, Unit]> = [
+  [/^(r|x|z)/, "Ω"],
+  [/^c/, "F"],
+  [/^l/, "H"],
+  [/^f/, "Hz"],
+  [/^(v|e)/, "V"],
+  [/^i/, "A"],
+  [/^(t|tau)/, "s"],
+  [/^p/, "W"],
+  [/^n/, "turns"],
+];
+
+const QUANTITY_RE = new RegExp(
+  String.raw`(?:\b([A-Za-z][A-Za-z0-9_]{0,5})\s*[=:]\s*)?(?<![\w.])(\d+(?:\.\d+)?(?:e[+-]?\d+)?)\s*` +
+    String.raw`(pico|nano|micro|milli|kilo|mega|giga|[pnuµμmkKMG])?\s*` +
+    String.raw`(Ω|ohms?|farads?|F|hertz|Hz|henr(?:y|ys|ies)|H|volts?|V|amperes?|amps?|A|seconds?|secs?|s|watts?|W|turns?)?(?![A-Za-z0-9])`,
+  "g"
+);
+
+// `bareUnit` is what the caller reads a number without unit or label as (resistor questions: Ω)
+export function parseQuantities(text: string, bareUnit: Unit | "" = ""): Quantity[] {
+  const out: Quantity[] = [];
+  for (const m of text.matchAll(QUANTITY_RE)) {
+    const [raw, rawLabel, num, prefix, unitWord] = m;
+    let value = parseFloat(num);
+    if (!Number.isFinite(value)) continue;
+    const label = rawLabel?.toLowerCase();
+    let unit: Unit | "" = unitWord ? UNIT_WORDS.find(([re]) => re.test(unitWord))?.[1] ?? "" : "";
+    if (!unit && label) unit = LABEL_UNITS.find(([re]) => re.test(label))?.[1] ?? "";
+    if (prefix) {
+      // A bare "m" is mega only in resistor shorthand ("R = 2.2m"); otherwise ("I = 20m", "5 mV") it is milli
+      const factor = !unitWord && prefix === "m" && (unit || (label ? "" : bareUnit)) === "Ω" ? 1e6 : PREFIXES[prefix];
+      value *= factor;
+    }
+    out.push({ value, unit, label, prefixOnly: Boolean(prefix && !unitWord), raw: raw.trim() });
+  }
+  return out;
+}
+
+// Values with the given unit, in order of mention
+export const valuesOf = (qs: Quantity[], unit: Unit) => qs.filter((q) => q.unit === unit);
+
+const DISPLAY_PREFIXES: Array<[number, string]> = [
+  [1e9, "G"], [1e6, "M"], [1e3, "k"], [1, ""], [1e-3, "m"], [1e-6, "µ"], [1e-9, "n"], [1e-12, "p"],
+];
+
+// 4 significant digits with the closest SI prefix: 4700 Ω -> "4.7 kΩ"
+export function formatQuantity(value: number, unit: Unit | "" = ""): string {
+  if (!Number.isFinite(value)) return "∞";
+  if (value === 0 || unit === "turns" || unit === "") return `${trimNumber(value)}${unit ? ` ${unit}` : ""}`;
+  const abs = Math.abs(value);
+  const [factor, prefix] = DISPLAY_PREFIXES.find(([f]) => abs >= f * 0.9995) ?? DISPLAY_PREFIXES[DISPLAY_PREFIXES.length - 1];
+  return `${trimNumber(value / factor)} ${prefix}${unit}`;
+}
+
+export const trimNumber = (x: number) => String(Number(x.toPrecision(4)));
@@ -0,0 +1,156 @@
+import path from "path";
+import { generateWithImage } from "./gemini";
+import type { ImageEntry, ImageKind } from "./images";
+
+// Draft catalogue entries for images nobody has described yet. scripts/loadDB.ts writes them to
+// images/manifest.yaml marked `draft: true`; they are only indexed once a person has reviewed them.
+export type CaptionDraft = Omit<ImageEntry, "file" | "draft" | "captioner">;
+export type CaptionFn = (file: string, data: Buffer, mime: string) => Promise<CaptionDraft>;
+
+export type CaptionerSpec = {
+  id: string;
+  // Recorded on each draft so reviewers know where it came from
+  model: string;
+  create: () => Promise<CaptionFn>;
+};
+
+export type Captioner = { id: string; model: string; caption: CaptionFn };
+
+// Components the lab material talks about; drafts are tagged from this list so tag matching works
+export const COMPONENT_TAGS = [
+  "ammeter",
+  "voltmeter",
+  "wattmeter",
+  "multimeter",
+  "resistor",
+  "rheostat",
+  "capacitor",
+  "inductor",
+  "relay",
+  "circuit breaker",
+  "fuse",
+  "switch",
+  "transformer",
+  "autotransformer",
+  "dc motor",
+  "induction motor",
+  "slip ring induction motor",
+  "squirrel cage induction motor",
+  "generator",
+  "battery",
+  "colour code",
+];
+
+const KIND_LABELS: Record<ImageKind, string> = {
+  photo: "a photograph of a component",
+  symbol: "a circuit symbol",
+  diagram: "a circuit or construction diagram",
+  chart: "a reference chart",
+  table: "a table",
+};
+
+const titleCase = (s: string) => s.replace(/\b[a-z]/g, (c) => c.toUpperCase()).replace(/\bDc\b/g, "DC");
+
+// "Circuit Breaker (2).png" -> "Circuit Breaker"
+const nameOf = (file: string) =>
+  path
+    .basename(file, path.extname(file))
+    .replace(/\(\d+\)/g, "")
+    .replace(/[_-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const tagsIn = (text: string) => {
+  const lower = text.toLowerCase();
+  return COMPONENT_TAGS.filter((t) => new RegExp(`\\b${t.replace(/\s+/g, "\\s+")}s?\\b`).test(lower));
+};
+
+const draftTitle = (tags: string[], kind: ImageKind | undefined, fallback: string) => {
+  // The most specific tag names the image ("slip ring induction motor" rather than "induction motor")
+  const main = [...tags].sort((a, b) => b.length - a.length)[0];
+  if (!main) return fallback;
+  return titleCase(kind === "symbol" || kind === "diagram" ? `${main} ${kind}` : main);
+};
+
+const registry = new Map<string, CaptionerSpec>();
+const aliases = new Map<string, string>();
+
+export function registerCaptioner(spec: CaptionerSpec, names: string[] = []) {
+  registry.set(spec.id, spec);
+  for (const n of [spec.id, ...names]) aliases.set(n.toLowerCase(), spec.id);
+}
+
+// Offline default: works from the file name alone, so every draft needs a real caption from the reviewer
+registerCaptioner(
+  {
+    id: "stub",
+    model: "filename",
+    create: async () => async (file) => {
+      const name = nameOf(file) || path.basename(file);
+      const tags = tagsIn(name);
+      const title = draftTitle(tags, undefined, titleCase(name));
+      return { title, caption: `${title} (from the file name ${path.basename(file)}; describe what the image shows).`, alt: title, tags };
+    },
+  },
+  ["filename", "none"]
+);
+
+// Local models: ViT-GPT2 writes a generic caption, CLIP picks the image kind and component tags
+registerCaptioner(
+  {
+    id: "xenova",
+    model: "Xenova/vit-gpt2-image-captioning+Xenova/clip-vit-base-patch32",
+    create: async () => {
+      const { pipeline } = await import("@xenova/transformers");
+      const describe = await pipeline("image-to-text", "Xenova/vit-gpt2-image-captioning");
+      const classify = await pipeline("zero-shot-image-classification", "Xenova/clip-vit-base-patch32");
+      type Scored = Array<{ label: string; score: number }>;
+      return async (file) => {
+        const [described] = (await describe(file)) as Array<{ generated_text?: string }>;
+        const kinds = (await classify(file, Object.values(KIND_LABELS))) as Scored;
+        const kind = (Object.keys(KIND_LABELS) as ImageKind[]).find((k) => KIND_LABELS[k] === kinds[0]?.label);
+        const components = (await classify(file, COMPONENT_TAGS.map((t) => `a ${t}`))) as Scored;
+        // Keep the clear winners only; CLIP spreads the rest thinly over the whole list
+        const tags = components.filter((c, i) => i === 0 || c.score >= 0.2).slice(0, 3).map((c) => c.label.replace(/^a /, ""));
+        const generic = String(described?.generated_text ?? "").trim();
+        const title = draftTitle(tags, kind, titleCase(nameOf(file)));
+        return { title, caption: generic ? `${generic[0].toUpperCase()}${generic.slice(1)}.` : title, alt: generic || title, kind, tags };
+      };
+    },
+  },
+  ["local"]
+);
+
+const visionPrompt = `You are cataloguing images for an electrical engineering virtual lab.
+Describe the image for students and reply with JSON only, no code fences:
+{"title": short name, "caption": one or two factual sentences (component, ratings or markings you can read, what it is used for),
+ "alt": one sentence describing what is visible, "kind": one of ${Object.keys(KIND_LABELS).join(", ")},
+ "tags": the components shown, chosen from: ${COMPONENT_TAGS.join(", ")}}`;
+
+registerCaptioner({
+  id: "gemini",
+  model: "gemini-vision",
+  create: async () => async (file, data, mime) => {
+    const raw = await generateWithImage(visionPrompt, { data, mime }, { temperature: 0 });
+    const json = raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1);
+    const out = JSON.parse(json || "{}") as Partial<Record<keyof CaptionDraft, unknown>>;
+    const title = typeof out.title === "string" && out.title.trim() ? out.title.trim() : titleCase(nameOf(file));
+    const caption = typeof out.caption === "string" ? out.caption.trim() : "";
+    const tags = Array.isArray(out.tags) ? out.tags.map((t) => String(t).toLowerCase().trim()).filter(Boolean) : [];
+    return {
+      title,
+      caption: caption || title,
+      alt: typeof out.alt === "string" && out.alt.trim() ? out.alt.trim() : caption || title,
+      kind: (Object.keys(KIND_LABELS) as ImageKind[]).find((k) => k === out.kind),
+      tags: tags.length ? tags : tagsIn(`${title} ${caption}`),
+    };
+  },
+});
+
+// IMAGE_CAPTIONER picks the captioner (default stub)
+export async function getCaptioner(name = process.env.IMAGE_CAPTIONER || "stub"): Promise<Captioner> {
+  const id = aliases.get(name.trim().toLowerCase());
+  const spec = id ? registry.get(id) : undefined;
+  if (!spec) throw new Error(`Unknown IMAGE_CAPTIONER '${name}'. Available: ${[...registry.keys()].join(", ")}`);
+  return { id: spec.id, model: spec.model, caption: await spec.create() };
+}
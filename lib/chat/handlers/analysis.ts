@@ -0,0 +1,43 @@
+import { formatHistory } from "../../history";
+import { analyzeReadings, renderAnalysis, tableToMarkdown } from "../../readings";
+import type { ChatPayload, IntentHandler } from "../types";
+
+// Uploaded readings are analysed on the server (fits, efficiency, % error); the model only writes
+// the discussion around numbers it is given, and the computed results follow it unchanged
+export const analysisHandler: IntentHandler = async ({ input, intent }) => {
+  const { table, question, history = [] } = input;
+  if (!table) return null;
+  const trace = { intent: intent.kind, query: question, ranked: [], similarity: null, web: false };
+  const analysis = analyzeReadings(table, question);
+  if (!analysis) {
+    return {
+      trace,
+      payload: {
+        answer: `I couldn't tell which quantities these columns hold, so there is nothing to compute yet. Label the columns with a quantity and unit, for example "Voltage (V)", "Current (mA)", "Speed (rpm)" or "Output power (W)".\n\n${tableToMarkdown(table)}`,
+        sources: [],
+      },
+    };
+  }
+  const results = renderAnalysis(analysis);
+  const convo = history.length ? `\nConversation so far:\n${formatHistory(history)}\n` : "";
+  const prompt = `You are the Virtual Lab Assistant helping a student discuss the readings from their experiment.
+Follow these rules strictly:
+1) The results below were computed exactly from the student's readings. Do not recompute, round differently or invent any number; quote them as given.
+2) Explain what the results show and whether they agree with the expected behaviour (for example a straight V–I line through the origin, or speed falling slightly with load).
+3) Point out readings that look out of line and likely sources of experimental error.
+4) Keep it to a short paragraph or a few bullet points; the results table is shown after your text, so do not repeat it.
+${convo}
+Student's request: ${question}
+
+Computed results:
+${results}
+
+Discussion in Markdown:`;
+  const finalize = (answer: string): ChatPayload => ({
+    answer: `${answer.trim() ? `${answer.trim()}\n\n` : ""}${results}`,
+    sources: [],
+    tool: "readings-analysis",
+    plots: analysis.plots,
+  });
+  return { trace, prompt, finalize, fallback: () => "" };
+};
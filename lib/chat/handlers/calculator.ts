@@ -0,0 +1,12 @@
+import { solveCalculation } from "../../calculators";
+import type { IntentHandler } from "../types";
+
+// Numeric questions (Ohm's law, reactance, color codes ...) get exact worked steps, not model arithmetic
+export const calculatorHandler: IntentHandler = async ({ input, intent }) => {
+  const calc = solveCalculation(input.question);
+  if (!calc) return null;
+  return {
+    trace: { intent: intent.kind, query: input.question, ranked: [], similarity: null, web: false },
+    payload: { answer: calc.answer, sources: [], tool: calc.calculator },
+  };
+};
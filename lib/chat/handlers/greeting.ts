@@ -0,0 +1,10 @@
+import type { IntentHandler } from "../types";
+
+export const greetingHandler: IntentHandler = async ({ input, intent }) => {
+  const greeting =
+    "Hello! I'm the Virtual Lab IIT Roorkee assistant. Ask about objectives, apparatus, procedure, precautions, or analysis, and I'll help you.";
+  return {
+    trace: { intent: intent.kind, query: input.question, ranked: [], similarity: null, web: false },
+    payload: { answer: greeting, sources: [] },
+  };
+};
@@ -0,0 +1,87 @@
+import { checkStoredModel } from "../../embeddings";
+import { imageCitation, validateCitations } from "../../citations";
+import { retrieveContext, simFromDoc, type ImageHit } from "../retrieval";
+import type { ChatPayload, IntentHandler, RetrievalTrace } from "../types";
+import { toClientPath } from "./image";
+import { buildPrompt } from "./labQa";
+
+type Match = ImageHit & { tags: string[]; similarity: number | null };
+
+const str = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+
+// An uploaded photo is embedded with the multimodal model used for the image index, matched
+// against the catalogued images, and the best match's name drives retrieval of lab context.
+export const identifyHandler: IntentHandler = async ({ input, deps, intent }) => {
+  const { image, question, history = [], experimentId } = input;
+  if (!image) return null;
+  const noMatch = (answer: string): { trace: RetrievalTrace; payload: ChatPayload } => ({
+    trace: { intent: intent.kind, query: question, ranked: [], similarity: null, web: false },
+    payload: { answer, sources: [], similarity: null },
+  });
+  if (!deps.embedder.embedImage) {
+    return noMatch("I can't look at photos on this server yet: image matching needs the multimodal embedding model (EMBED_PROVIDER=multimodal).");
+  }
+
+  const coll = deps.store.collection(deps.embedder.collectionName);
+  const vector = await deps.embedder.embedImage(image.data, image.mime);
+  const hits = await coll.vectorSearch(vector, { filter: { type: "image" }, limit: 8 });
+  checkStoredModel(deps.embedder, hits);
+
+  // One entry per component: several files often show the same thing
+  const matches: Match[] = [];
+  for (const h of hits) {
+    if (typeof h.path !== "string") continue;
+    const title = str(h.title);
+    if (title && matches.some((m) => m.title === title)) continue;
+    matches.push({
+      path: toClientPath(h.path),
+      title,
+      caption: str(h.caption),
+      alt: str(h.alt),
+      tags: Array.isArray(h.tags) ? h.tags.map(String) : [],
+      similarity: simFromDoc(h),
+    });
+  }
+  if (!matches.length) {
+    return noMatch("I couldn't match this photo to any component in the lab's image catalogue. Try a closer, well-lit photo of a single component.");
+  }
+
+  const thresholdEnv = parseFloat(String(process.env.IMAGE_MATCH_THRESHOLD ?? "0.5"));
+  const threshold = Number.isFinite(thresholdEnv) ? thresholdEnv : 0.5;
+  const top = matches.slice(0, 3);
+  const best = top[0];
+  const confident = best.similarity == null || best.similarity >= threshold;
+
+  // Lab text about the best match ("rheostat"), not about the words "this component"
+  const query = [best.title, ...best.tags, question].filter(Boolean).join(" ");
+  const { context, citations, ranked } = await retrieveContext(query, experimentId, deps);
+
+  const candidates = top
+    .map((m) => {
+      const sim = m.similarity == null ? "" : `, visual similarity ${m.similarity.toFixed(2)}`;
+      return `- ${m.title || m.path}${sim}${m.caption ? `: ${m.caption}` : ""}`;
+    })
+    .join("\n");
+  const task = `The student attached a photo and asks: "${question}"
+Closest images in the lab's component catalogue (similarity 0-1, higher is closer):
+${candidates}
+First say which component the photo most likely shows, based on these matches${
+    confident ? "" : " (all of them are weak, so say you are not sure and suggest a clearer photo)"
+  }; if the matches disagree, mention the alternatives. Then answer the question using the lab context.`;
+
+  // The matched catalogue images are shown under the answer, numbered after the text sources
+  const imageSources = top.map((m, i) => imageCitation(m, citations.length + i + 1));
+  const finalize = (answer: string): ChatPayload => {
+    const checked = validateCitations(answer || "I don't know.", citations);
+    return { answer: checked.answer, sources: [...checked.citations, ...imageSources], similarity: best.similarity };
+  };
+  const fallback = () =>
+    `This looks most like: ${best.title || best.path}${best.caption ? ` (${best.caption})` : ""}.`;
+
+  return {
+    trace: { intent: intent.kind, query, ranked, similarity: best.similarity, web: false },
+    prompt: buildPrompt(task, context, undefined, history),
+    finalize,
+    fallback,
+  };
+};
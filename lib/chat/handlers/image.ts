@@ -0,0 +1,56 @@
+import { imageCitation } from "../../citations";
+import { getImageCatalog, matchImagesByTags } from "../../images";
+import type { ImageHit } from "../retrieval";
+import type { IntentHandler } from "../types";
+
+// Stored image paths ("images/a.png", absolute paths from older seeds) as served from public/
+export const toClientPath = (p: string) => {
+  const norm = (p || '').replace(/\\/g, '/');
+  const i = norm.lastIndexOf('/images/');
+  if (i >= 0) return norm.slice(i + 1);
+  if (norm.startsWith('images/')) return norm;
+  const file = norm.split('/').pop() || norm;
+  return `images/${file}`;
+};
+
+// Markdown text can't hold brackets, quotes or line breaks in alt text and titles
+const mdText = (s: string) => s.replace(/[[\]"\n]/g, " ").trim();
+
+// Markdown link targets may not contain unbalanced parentheses or spaces
+const mdUrl = (url: string) => encodeURI(url).replace(/\(/g, "%28").replace(/\)/g, "%29");
+
+// Catalogued images whose tags the question names; failing that, whatever retrieval found.
+// With neither the question goes to lab QA.
+export const imageHandler: IntentHandler = async ({ input, intent, query, retrieve }) => {
+  const { images = [], ranked, topSimilarity, topTextSimilarity } = await retrieve();
+  const sim = typeof topTextSimilarity === "number" ? topTextSimilarity : (typeof topSimilarity === 'number' ? topSimilarity : null);
+  const tagged: ImageHit[] = matchImagesByTags(input.question, getImageCatalog()).map((e) => ({
+    path: `images/${e.file}`,
+    title: e.title,
+    caption: e.caption,
+    alt: e.alt,
+  }));
+  // Keyed by path, or by title and caption so copies of one picture under two names show once
+  const picks = new Map<string, ImageHit>();
+  for (const img of tagged.length ? tagged : images) {
+    const p = toClientPath(img.path);
+    const key = img.caption ? `${img.title}|${img.caption}` : p;
+    if (!picks.has(key)) picks.set(key, { ...img, path: p });
+  }
+  if (!picks.size) return null;
+
+  const imageSources = [...picks.values()].slice(0, 6).map((img, i) => imageCitation(img, i + 1));
+  const md = [
+    'Here are relevant images:',
+    '',
+    ...imageSources.flatMap((s) => [
+      `![${mdText(s.alt ?? "")}](${mdUrl(s.url)} "${mdText(s.document)}")`,
+      s.snippet ? `*${s.document}: ${s.snippet}*` : `*${s.document}*`,
+      '',
+    ]),
+  ].join('\n').trim();
+  return {
+    trace: { intent: intent.kind, query: await query(), ranked, similarity: sim, web: false },
+    payload: { answer: md, sources: imageSources, similarity: sim },
+  };
+};
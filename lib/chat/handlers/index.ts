@@ -0,0 +1,23 @@
+import type { IntentHandler, IntentKind } from "../types";
+import { analysisHandler } from "./analysis";
+import { calculatorHandler } from "./calculator";
+import { greetingHandler } from "./greeting";
+import { identifyHandler } from "./identify";
+import { imageHandler } from "./image";
+import { labQaHandler } from "./labQa";
+import { verifiedAnswerHandler } from "./verified";
+
+export { buildPrompt } from "./labQa";
+
+// One handler per intent. A new behaviour is a new intent in ../intents.ts plus a handler here.
+export const HANDLERS: Record<IntentKind, IntentHandler> = {
+  greeting: greetingHandler,
+  calculator: calculatorHandler,
+  image: imageHandler,
+  identify: identifyHandler,
+  analysis: analysisHandler,
+  web: labQaHandler,
+  "lab-qa": labQaHandler,
+};
+
+export { labQaHandler, verifiedAnswerHandler };
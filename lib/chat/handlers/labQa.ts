@@ -0,0 +1,75 @@
+import { formatHistory, type ChatTurn } from "../../history";
+import { citationLabel, validateCitations, webCitation, type Citation } from "../../citations";
+import type { ChatPayload, IntentHandler, RetrievalTrace } from "../types";
+import type { WebSearchDiagnostics, WebTrigger } from "../webSearch";
+
+export function buildPrompt(question: string, labContext: string, webBlob?: string, history: ChatTurn[] = []) {
+  const instruction = `You are the Virtual Lab Assistant.
+Follow these rules strictly:
+1) Use the lab context below as the primary source.
+2) If a web summary is provided, integrate only relevant details from it; do not contradict the lab context.
+3) If both sources lack the necessary information, answer exactly: "I don't know."
+4) Keep tone academic, helpful, and factual.
+5) Be concise and structured with bullet points when appropriate.
+6) Use the conversation so far only to understand what the question refers to; facts must come from the sources above.
+7) Cite the numbered sources you used with inline markers like [1] or [2][3] right after the statement they support. Cite only numbers shown below; never invent sources.`;
+
+  const convo = history.length ? `\nConversation so far:\n${formatHistory(history)}\n` : "";
+  return `${instruction}
+${convo}
+Lab Context:
+${labContext || "(none)"}
+
+Web Summary (may be empty):
+${webBlob || "(none)"}
+
+Question: ${question}
+
+Answer in Markdown:`;
+}
+
+// Answer from the lab material, adding web results when retrieval is weak or the student asked for them
+export const labQaHandler: IntentHandler = async ({ input, deps, intent, query, retrieve }) => {
+  const { question, history = [] } = input;
+  const q = await query();
+  const { context, citations, ranked, topSimilarity, topTextSimilarity, rerank } = await retrieve();
+
+  // Web search policy
+  const forceWeb = intent.kind === "web";
+  const sim = typeof topTextSimilarity === "number" ? topTextSimilarity : (typeof topSimilarity === 'number' ? topSimilarity : null);
+  const thresholdEnv = parseFloat(String(process.env.SEARCH_SIM_THRESHOLD ?? '0.6'));
+  const threshold = Number.isFinite(thresholdEnv) ? thresholdEnv : 0.6;
+  const rule: WebTrigger | null = forceWeb ? "requested" : sim != null && sim < threshold ? "low-similarity" : null;
+  const diagnostics: WebSearchDiagnostics = { triggered: rule != null, rule, similarity: sim, threshold, provider: null, received: 0, kept: 0 };
+  const trace: RetrievalTrace = { intent: intent.kind, query: q, ranked, similarity: sim, web: rule != null, webSearch: diagnostics, rerank };
+
+  let webBlob: string | undefined;
+  let webCitations: Citation[] = [];
+  if (rule) {
+    // Web results are numbered after the lab chunks so one [n] sequence covers both
+    const { provider, results: web, received, error } = await deps.webSearch(q);
+    Object.assign(diagnostics, { provider, received, kept: web.length, error });
+    webCitations = web.map((r, i) => webCitation(r, citations.length + i + 1));
+    webBlob =
+      web.map((r, i) => `${citationLabel(webCitations[i])}\nURL: ${r.url}\nContent: ${r.content}`).join("\n\n---\n\n") ||
+      undefined;
+  }
+
+  // If both sources are empty/insufficient, don't guess
+  if (!(context && context.trim()) && !(webBlob && webBlob.trim())) {
+    return { trace, payload: { answer: "I don't know.", sources: [], similarity: sim } };
+  }
+
+  const fallback = () =>
+    context?.trim()
+      ? (context.length > 1200 ? context.slice(0, 1200) + " ..." : context)
+      : "I don't know.";
+  const finalize = (answer: string): ChatPayload => {
+    const finalAnswer = answer || "I don't know.";
+    // Drop [n] markers that name no source we sent and flag the ones actually cited
+    const checked = validateCitations(finalAnswer, [...citations, ...webCitations]);
+    return { answer: checked.answer, sources: checked.citations, similarity: sim };
+  };
+
+  return { trace, prompt: buildPrompt(question, context, webBlob, history), finalize, fallback };
+};
@@ -0,0 +1,18 @@
+import type { IntentHandler } from "../types";
+
+// Answers the question with an instructor's verified answer when one matches closely enough
+export const verifiedAnswerHandler: IntentHandler = async ({ input, deps, intent, query }) => {
+  const q = await query();
+  const match = await deps.verifiedAnswers(q, input.experimentId);
+  if (!match) return null;
+  const { entry, similarity } = match;
+  return {
+    trace: { intent: intent.kind, query: q, ranked: [], similarity, web: false },
+    payload: {
+      answer: entry.answer,
+      sources: [],
+      similarity,
+      verified: { id: entry.id, question: entry.question, verifiedBy: entry.verifiedBy },
+    },
+  };
+};
@@ -0,0 +1,65 @@
+import { detectCalculators, solveCalculation } from "../calculators";
+import type { ChatDeps, ChatInput, Intent, IntentKind } from "./types";
+
+const GREETING_RE = /^(hi|hello|hey|hlo|hola|namaste|good\s*(morning|afternoon|evening)|yo|sup)[!.?,\s]*$/i;
+const WEB_RE = /\b(more\s+details?|from\s+(the\s+)?web|explanation\s+from\s+web|search\s+(the\s+)?(web|internet|online))\b/i;
+const VISUAL_NOUN = String.raw`(images?|photos?|pictures?|pics?|diagrams?|figures?|symbols?|charts?)`;
+// Asking to see something: "show me the symbol", "symbol of an ammeter", "what does a relay look like"
+const SHOW_IMAGE_RE = new RegExp(
+  String.raw`\b(show|display|see|view|send|give|share|draw)\b[^.?!]*\b${VISUAL_NOUN}\b|\b${VISUAL_NOUN}\s+(of|for)\b|\bwhat\s+does\s+[^.?!]+\s+look\s+like\b|\b${VISUAL_NOUN}\s*(please|pls)?\s*[?.!]*$`,
+  "i"
+);
+const VISUAL_MENTION_RE = new RegExp(String.raw`\b${VISUAL_NOUN}\b`, "i");
+// Wants an explanation even though a visual is mentioned: "explain figure 2", "why is the symbol drawn so"
+const EXPLAIN_RE = /\b(explain|describe|why|how\s+(does|do|is|are)|meaning|significance|difference|purpose|function)\b/i;
+
+// Confidence at or above which a rule decision is final
+const CONFIDENT = 0.6;
+
+// Ranked candidate intents from rules alone; lab QA is always present as the fallback
+export function classifyByRules(question: string): Intent[] {
+  const q = question.trim();
+  const out: Intent[] = [];
+  const add = (kind: IntentKind, confidence: number, reason: string) => out.push({ kind, confidence, source: "rules", reason });
+  if (GREETING_RE.test(q)) add("greeting", 1, "greeting only");
+  const calc = solveCalculation(q);
+  if (calc) add("calculator", 0.95, `solvable by ${calc.calculator}`);
+  else if (detectCalculators(q).length) add("lab-qa", 0.5, "calculation without enough values");
+  if (SHOW_IMAGE_RE.test(q)) add("image", EXPLAIN_RE.test(q) ? 0.55 : 0.9, "asks to see a visual");
+  else if (VISUAL_MENTION_RE.test(q)) add("image", EXPLAIN_RE.test(q) ? 0.2 : 0.45, "mentions a visual");
+  if (WEB_RE.test(q)) add("web", 0.85, "asks for web sources");
+  add("lab-qa", 0.5, "default");
+  return out.sort((a, b) => b.confidence - a.confidence);
+}
+
+const LLM_KINDS: IntentKind[] = ["image", "web", "lab-qa"];
+
+// Optional second opinion when the rules are unsure (INTENT_CLASSIFIER=llm)
+async function classifyByModel(question: string, generate: ChatDeps["generate"]): Promise<Intent | null> {
+  const prompt = `Classify the student's message to a virtual lab assistant. Reply with exactly one label:
+image - they want to see a picture, photo, symbol or diagram
+web - they ask for information from the web or beyond the lab material
+lab-qa - anything else: questions answered from the lab manual, including explanations of figures
+
+Message: ${question}
+
+Label:`;
+  try {
+    const label = (await generate(prompt, { temperature: 0 })).trim().toLowerCase().replace(/[^a-z-]/g, "");
+    const kind = LLM_KINDS.find((k) => k === label);
+    return kind ? { kind, confidence: 0.7, source: "llm", reason: "model classification" } : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function classifyIntent({ question, image, table }: Pick<ChatInput, "question" | "image" | "table">, deps: Pick<ChatDeps, "generate">): Promise<Intent> {
+  // Whatever the text says, an attached photo is the thing to identify and a table is to be analysed
+  if (image) return { kind: "identify", confidence: 1, source: "rules", reason: "photo attached" };
+  if (table) return { kind: "analysis", confidence: 1, source: "rules", reason: "readings table attached" };
+  const [best] = classifyByRules(question);
+  if (best.confidence >= CONFIDENT) return best;
+  const fallback: Intent = { kind: "lab-qa", confidence: 0.5, source: "rules", reason: best.kind === "lab-qa" ? best.reason : `unsure: ${best.reason}` };
+  if (process.env.INTENT_CLASSIFIER !== "llm") return fallback;
+  return (await classifyByModel(question, deps.generate)) ?? fallback;
+}
@@ -0,0 +1,68 @@
+import { getEmbedder } from "../embeddings";
+import { generateText, streamText } from "../gemini";
+import { getVectorStore } from "../vectorStore";
+import { matchFaq } from "../faq";
+import { rewriteStandalone } from "../history";
+import { searchWeb } from "./webSearch";
+import { classifyIntent } from "./intents";
+import { retrieveContext, type Retrieval } from "./retrieval";
+import { HANDLERS, labQaHandler, verifiedAnswerHandler } from "./handlers";
+import type { AnswerPlan, ChatDeps, ChatInput, IntentContext } from "./types";
+
+export type * from "./types";
+export { retrieveContext } from "./retrieval";
+export { buildPrompt } from "./handlers";
+export { classifyIntent } from "./intents";
+
+export async function defaultChatDeps(): Promise<ChatDeps> {
+  const embedder = await getEmbedder();
+  return {
+    store: getVectorStore(),
+    embedder,
+    generate: generateText,
+    stream: (prompt) => streamText(prompt),
+    webSearch: (query) => searchWeb(query),
+    verifiedAnswers: (question, experimentId) => matchFaq(question, experimentId, embedder),
+  };
+}
+
+export async function planAnswer(input: ChatInput, deps: ChatDeps): Promise<AnswerPlan> {
+  const intent = await classifyIntent(input, deps);
+
+  // Follow-ups ("what precautions apply to it?") are rewritten into standalone queries for retrieval;
+  // both steps are lazy so greetings and calculations never touch the model or the store
+  let query: Promise<string> | undefined;
+  let retrieval: Promise<Retrieval> | undefined;
+  const ctx: IntentContext = {
+    input,
+    deps,
+    intent,
+    query: () =>
+      (query ??= rewriteStandalone(input.question, input.history ?? [], (prompt) => deps.generate(prompt, { temperature: 0 }))),
+    retrieve: () => (retrieval ??= ctx.query().then((q) => retrieveContext(q, input.experimentId, deps))),
+  };
+
+  // Lab questions an instructor has answered get the verified answer, before any retrieval
+  if (intent.kind === "lab-qa") {
+    const verified = await verifiedAnswerHandler(ctx);
+    if (verified) return verified;
+  }
+
+  // A handler that cannot answer (no matching image, values missing) hands over to lab QA
+  return (await HANDLERS[intent.kind](ctx)) ?? (await labQaHandler({ ...ctx, intent: { ...intent, kind: "lab-qa" } }))!;
+}
+
+// Non-streaming answer: generate, degrade to the raw context if the model fails (`degraded`)
+export async function answerQuestion(input: ChatInput, deps: ChatDeps) {
+  const plan = await planAnswer(input, deps);
+  if ("payload" in plan) return { payload: plan.payload, trace: plan.trace, degraded: false };
+  let answer: string;
+  let degraded = false;
+  try {
+    answer = ((await deps.generate(plan.prompt)) || "").trim();
+  } catch {
+    answer = plan.fallback();
+    degraded = true;
+  }
+  return { payload: plan.finalize(answer), trace: plan.trace, degraded };
+}
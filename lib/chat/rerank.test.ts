@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { rerankSettings } from "./rerank";
+
+const KEYS = ["RERANKER", "RERANK_CANDIDATES", "CONTEXT_TOKEN_BUDGET"];
+const saved = Object.fromEntries(KEYS.map((k) => [k, process.env[k]]));
+
+const withEnv = (env: Record<string, string>) => {
+  for (const [k, v] of Object.entries(env)) process.env[k] = v;
+  return rerankSettings();
+};
+
+describe("rerankSettings", () => {
+  afterEach(() => {
+    for (const k of KEYS) {
+      if (saved[k] === undefined) delete process.env[k];
+      else process.env[k] = saved[k];
+    }
+  });
+
+  it("uses the defaults when nothing is set", () => {
+    for (const k of KEYS) delete process.env[k];
+    assert.deepEqual(rerankSettings(), { reranker: "xenova", candidates: 20, tokenBudget: 1500 });
+  });
+
+  it("reads values inside the bounds", () => {
+    assert.deepEqual(withEnv({ RERANKER: " LLM ", RERANK_CANDIDATES: "8.9", CONTEXT_TOKEN_BUDGET: "600" }), {
+      reranker: "llm",
+      candidates: 8,
+      tokenBudget: 600,
+    });
+  });
+
+  it("falls back to the default for candidates outside 1-200", () => {
+    for (const v of ["0", "-3", "201", "many"]) assert.equal(withEnv({ RERANK_CANDIDATES: v }).candidates, 20, v);
+    assert.equal(withEnv({ RERANK_CANDIDATES: "1" }).candidates, 1);
+    assert.equal(withEnv({ RERANK_CANDIDATES: "200" }).candidates, 200);
+  });
+
+  it("accepts a zero token budget but not a negative one", () => {
+    assert.equal(withEnv({ CONTEXT_TOKEN_BUDGET: "0" }).tokenBudget, 0);
+    assert.equal(withEnv({ CONTEXT_TOKEN_BUDGET: "-1" }).tokenBudget, 1500);
+  });
+});
@@ -0,0 +1,199 @@
+import { estimateTokens } from "../history";
+import { numberEnv } from "../env";
+import type { SearchHit } from "../vectorStore";
+import type { ChatDeps } from "./types";
+
+// Second retrieval stage. The candidates the store returned are scored against the question
+// (a local cross-encoder by default, so it works without Astra's hybrid reranking), chunks that
+// mostly repeat a better one (the 200-character chunk overlap) are dropped, and the context is
+// filled up to a token budget rather than a fixed number of chunks.
+export type RerankFn = (question: string, passages: string[], deps: Pick<ChatDeps, "generate">) => Promise<number[]>;
+
+export type RerankerSpec = {
+  id: string;
+  model: string;
+  create: () => Promise<RerankFn>;
+};
+
+// What the stage did, reported with the retrieval
+export type RerankStats = {
+  reranker: string;
+  candidates: number;
+  duplicates: number;
+  kept: number;
+  tokens: number;
+  // Set when the reranker failed and the store order was kept
+  error?: string;
+};
+
+const registry = new Map<string, RerankerSpec>();
+const aliases = new Map<string, string>();
+const created = new Map<string, Promise<RerankFn>>();
+// Rerankers whose setup failed, with the reason, until they may be tried again
+const failed = new Map<string, { error: string; until: number }>();
+
+// How long a reranker that could not start (e.g. offline model download) is skipped
+const SETUP_RETRY_MS = 10 * 60 * 1000;
+
+export function registerReranker(spec: RerankerSpec, names: string[] = []) {
+  registry.set(spec.id, spec);
+  for (const n of [spec.id, ...names]) aliases.set(n.toLowerCase(), spec.id);
+  created.delete(spec.id);
+  failed.delete(spec.id);
+}
+
+// ms-marco cross-encoder: one relevance logit per (question, passage) pair
+registerReranker(
+  {
+    id: "xenova",
+    model: "Xenova/ms-marco-MiniLM-L-6-v2",
+    create: async () => {
+      const { AutoModelForSequenceClassification, AutoTokenizer } = await import("@xenova/transformers");
+      const tokenizer = await AutoTokenizer.from_pretrained("Xenova/ms-marco-MiniLM-L-6-v2");
+      const model = await AutoModelForSequenceClassification.from_pretrained("Xenova/ms-marco-MiniLM-L-6-v2");
+      return async (question, passages) => {
+        const inputs = tokenizer(new Array(passages.length).fill(question), { text_pair: passages, padding: true, truncation: true });
+        const { logits } = await model(inputs);
+        return Array.from(logits.data as Float32Array);
+      };
+    },
+  },
+  ["cross-encoder", "local"]
+);
+
+// The chat model grades every passage in one call
+registerReranker({
+  id: "llm",
+  model: "gemini",
+  create: async () => async (question, passages, { generate }) => {
+    const listed = passages.map((p, i) => `[${i + 1}] ${p.length > 600 ? `${p.slice(0, 600)} ...` : p}`).join("\n\n");
+    const raw = await generate(
+      `Rate how well each numbered lab passage helps answer the question, from 0 (unrelated) to 10 (answers it directly).
+Reply with JSON only: {"scores":[...]} with one number per passage, in order.
+
+Question: ${question}
+
+Passages:
+${listed}`,
+      { temperature: 0 }
+    );
+    const scores = JSON.parse(raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1) || "{}")?.scores;
+    if (!Array.isArray(scores) || scores.length !== passages.length) throw new Error("Reranker reply did not score every passage");
+    return scores.map((s) => Number(s) || 0);
+  },
+});
+
+// Keeps the store's order (vector or hybrid), e.g. to compare against a reranker in evaluations
+registerReranker(
+  {
+    id: "none",
+    model: "store order",
+    create: async () => async (_question, passages) => passages.map((_, i) => -i),
+  },
+  ["off", "store"]
+);
+
+// RERANKER picks the reranker (default xenova); RERANK_CANDIDATES is how many store hits it sees
+// (1-200); CONTEXT_TOKEN_BUDGET caps the chunks sent to the model (0 keeps only the best one)
+export const rerankSettings = () => ({
+  reranker: (process.env.RERANKER || "xenova").trim().toLowerCase(),
+  candidates: numberEnv("RERANK_CANDIDATES", 20, { min: 1, max: 200, integer: true }),
+  tokenBudget: numberEnv("CONTEXT_TOKEN_BUDGET", 1500, { integer: true }),
+});
+
+export function resolveReranker(name = rerankSettings().reranker): RerankerSpec {
+  const id = aliases.get(name);
+  const spec = id ? registry.get(id) : undefined;
+  if (!spec) throw new Error(`Unknown RERANKER '${name}'. Available: ${[...registry.keys()].join(", ")}`);
+  return spec;
+}
+
+// Model clients are created once per process. A failed setup is logged once and not retried
+// for SETUP_RETRY_MS, so requests in the meantime keep the store order without waiting on it.
+function rerankerFor(spec: RerankerSpec): Promise<RerankFn> {
+  const down = failed.get(spec.id);
+  if (down && down.until > Date.now()) return Promise.reject(new Error(down.error));
+  if (!created.has(spec.id)) {
+    const fn = spec.create();
+    fn.catch((err) => {
+      if (created.get(spec.id) !== fn) return;
+      created.delete(spec.id);
+      const error = (err as Error)?.message || String(err);
+      failed.set(spec.id, { error, until: Date.now() + SETUP_RETRY_MS });
+      console.warn(`Reranker ${spec.id} could not start, keeping the store order for ${SETUP_RETRY_MS / 60000} minutes: ${error}`);
+    });
+    created.set(spec.id, fn);
+  }
+  return created.get(spec.id)!;
+}
+
+const SHINGLE = 5;
+const DUPLICATE_SHARE = 0.7;
+
+const shingles = (text: string) => {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const out = new Set<string>();
+  for (let i = 0; i + SHINGLE <= words.length; i++) out.add(words.slice(i, i + SHINGLE).join(" "));
+  if (!out.size && words.length) out.add(words.join(" "));
+  return out;
+};
+
+// Orders the text candidates by relevance to the question and picks the context chunks.
+// `ranked` is the full new order (for retrieval metrics); `kept` what fits the budget.
+// `boosted` uids (chunks from the section the question targets) stay ahead of the rest.
+export async function rerankChunks(
+  question: string,
+  docs: SearchHit[],
+  deps: Pick<ChatDeps, "generate">,
+  boosted: Set<string> = new Set()
+): Promise<{ ranked: SearchHit[]; kept: SearchHit[]; stats: RerankStats }> {
+  const { candidates, tokenBudget } = rerankSettings();
+  const pool = docs.slice(0, candidates);
+  const spec = resolveReranker();
+  const stats: RerankStats = { reranker: spec.id, candidates: pool.length, duplicates: 0, kept: 0, tokens: 0 };
+
+  let ranked = pool;
+  let score: RerankFn | null = null;
+  if (pool.length > 1) {
+    // Setup failures are logged once by rerankerFor; the reason still goes on the stats
+    score = await rerankerFor(spec).catch((err) => {
+      stats.error = (err as Error)?.message || String(err);
+      return null;
+    });
+  }
+  if (score) {
+    try {
+      const scores = await score(question, pool.map((d) => String(d.text)), deps);
+      const first = (d: SearchHit) => (d.uid && boosted.has(d.uid) ? 0 : 1);
+      ranked = pool
+        .map((d, i) => ({ d, s: scores[i] ?? -Infinity, i }))
+        .sort((a, b) => first(a.d) - first(b.d) || b.s - a.s || a.i - b.i)
+        .map((x) => x.d);
+    } catch (err) {
+      stats.error = (err as Error)?.message || String(err);
+      console.warn(`Reranker ${spec.id} failed, keeping the store order: ${stats.error}`);
+    }
+  }
+
+  // Best first: a chunk whose word runs mostly appear in chunks already kept adds nothing new
+  const seen = new Set<string>();
+  const kept: SearchHit[] = [];
+  for (const d of ranked) {
+    const text = String(d.text);
+    const own = shingles(text);
+    let shared = 0;
+    for (const s of own) if (seen.has(s)) shared++;
+    if (own.size && shared / own.size >= DUPLICATE_SHARE) {
+      stats.duplicates++;
+      continue;
+    }
+    const tokens = estimateTokens(text);
+    // The best chunk always goes in; later ones only while they fit
+    if (kept.length && stats.tokens + tokens > tokenBudget) continue;
+    kept.push(d);
+    stats.tokens += tokens;
+    for (const s of own) seen.add(s);
+  }
+  stats.kept = kept.length;
+  return { ranked, kept, stats };
+}
@@ -0,0 +1,96 @@
+import { checkStoredModel } from "../embeddings";
+import { detectQuestionSection, sectionQueryTerms } from "../sections";
+import type { SearchHit } from "../vectorStore";
+import { citationLabel, docCitation } from "../citations";
+import { rerankChunks, rerankSettings } from "./rerank";
+import type { ChatDeps } from "./types";
+
+// A retrieved image; the catalogue fields are present when images/manifest.yaml describes it
+export type ImageHit = { path: string; title?: string; caption?: string; alt?: string };
+
+// Similarity of a hit, whichever field the store reported it in
+export const simFromDoc = (d: SearchHit): number | null => {
+  const cand =
+    typeof d?.$similarity === "number"
+      ? d.$similarity
+      : typeof d?.similarity === "number"
+      ? d.similarity
+      : typeof d?.score === "number"
+      ? d.score
+      : typeof d?.$score === "number"
+      ? d.$score
+      : null;
+  return typeof cand === "number" ? cand : null;
+};
+
+export type Retrieval = Awaited<ReturnType<typeof retrieveContext>>;
+
+export async function retrieveContext(query: string, experimentId: string | undefined, deps: ChatDeps) {
+  const { store, embedder } = deps;
+  const coll = store.collection(embedder.collectionName);
+  // Enough candidates for the reranker, and never fewer than the 12 the image lookup used
+  const limit = Math.max(12, rerankSettings().candidates);
+
+  // Scope to one experiment; images are shared across experiments and carry no experimentId
+  const scope: Record<string, unknown> = experimentId ? { $or: [{ experimentId }, { type: "image" }] } : {};
+  const textScope: Record<string, unknown> = experimentId ? { type: "text", experimentId } : { type: "text" };
+
+  // Query augmentation
+  const augTerms: string[] = ["experiment", "lab", ...sectionQueryTerms(query)];
+  const augmentedQuery = `${query} ${augTerms.join(" ")}`.trim();
+  const vector = await embedder.embed(augmentedQuery);
+
+  // Attempt hybrid first, then vector-only with similarity
+  let docs: SearchHit[] = (await coll.hybridSearch(vector, augmentedQuery, { filter: scope, limit })) ?? [];
+  if (docs.length === 0) {
+    docs = await coll.vectorSearch(vector, { filter: scope, limit });
+  }
+  // Refuses (or warns, with EMBED_MISMATCH=warn) when the collection was seeded with another model
+  checkStoredModel(embedder, docs);
+
+  let topSimilarity: number | null = null;
+  let topTextSimilarity: number | null = null;
+  if (docs?.length) topSimilarity = simFromDoc(docs[0]);
+  if (topSimilarity == null) {
+    try {
+      const vd = await coll.vectorSearch(vector, { filter: scope, limit: 1 });
+      if (vd?.length) topSimilarity = simFromDoc(vd[0]);
+    } catch {}
+  }
+  // Also compute similarity restricted to text docs so web fallback isn't blocked by image-only matches
+  try {
+    const td = await coll.vectorSearch(vector, { filter: textScope, limit: 1 });
+    if (td?.length) topTextSimilarity = simFromDoc(td[0]);
+  } catch {}
+  if ((docs?.length ?? 0) === 0 && topSimilarity == null) topSimilarity = 0;
+
+  // Boost chunks from the section the question targets (e.g. "precautions") to the front
+  const section = detectQuestionSection(query);
+  let boosted = new Set<string>();
+  if (section) {
+    try {
+      const sectionHits = await coll.vectorSearch(vector, { filter: { ...textScope, section }, limit: 5 });
+      boosted = new Set(sectionHits.map((d) => d.uid));
+      docs = [...sectionHits, ...docs.filter((d) => !boosted.has(d.uid))];
+    } catch {}
+  }
+
+  // Build numbered context (the model cites it as [n]) and collect image docs
+  const textDocs: SearchHit[] = [];
+  const images: ImageHit[] = [];
+  const str = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+  for (const d of docs) {
+    if (typeof d?.text === "string" && d.text.trim()) textDocs.push(d);
+    const pth: string | undefined = typeof d?.path === "string" ? d.path : undefined;
+    const typ = d?.type;
+    const isImg = typ === "image" || (typeof d?.mime === "string" && d.mime.startsWith("image/"));
+    if (isImg && pth) images.push({ path: pth.replace(/\\/g, "/"), title: str(d.title), caption: str(d.caption), alt: str(d.alt) });
+  }
+  // Reranked against the question (section chunks still first), near-duplicates dropped, filled up to the token budget
+  const { ranked: reranked, kept: top, stats: rerank } = await rerankChunks(query, textDocs, deps, boosted);
+  const citations = top.map((d, i) => docCitation(d, i + 1));
+  const context = top.map((d, i) => `${citationLabel(citations[i])}\n${d.text}`).join("\n\n---\n\n");
+  // Ranked uids of every text chunk retrieved (reranked candidates first), for retrieval metrics
+  const ranked = [...reranked, ...textDocs.filter((d) => !reranked.includes(d))].map((d) => d.uid);
+  return { context, citations, ranked, images: images.slice(0, 12), topSimilarity, topTextSimilarity, rerank };
+}
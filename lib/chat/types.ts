@@ -0,0 +1,76 @@
+import type { EmbeddingModel } from "../embeddings";
+import type { FaqMatch } from "../faq";
+import type { ChatTurn } from "../history";
+import type { Citation } from "../citations";
+import type { Plot, ReadingsTable } from "../readings";
+import type { VectorStore } from "../vectorStore";
+import type { WebSearchDiagnostics, WebSearchOutcome } from "./webSearch";
+import type { Retrieval } from "./retrieval";
+import type { RerankStats } from "./rerank";
+import type { ImageUpload } from "./upload";
+
+// Everything the answer pipeline talks to. POST /api/chat uses the defaults; scripts/eval.ts
+// swaps in a stub LLM, a local store or no web search to make runs reproducible.
+export type ChatDeps = {
+  store: VectorStore;
+  embedder: EmbeddingModel;
+  generate: (prompt: string, opts?: { temperature?: number }) => Promise<string>;
+  stream: (prompt: string) => AsyncIterable<string>;
+  // Resolves with the reason instead of rejecting when the search fails (see searchWeb)
+  webSearch: (query: string) => Promise<WebSearchOutcome>;
+  // Instructor-verified answer for the question, when one matches (see lib/faq.ts)
+  verifiedAnswers: (question: string, experimentId?: string) => Promise<FaqMatch | null>;
+};
+
+// `tool` names the calculator that produced the answer, when one did; `verified` is set when
+// the answer is an instructor's verified answer rather than a generated one; `plots` come with
+// an analysis of uploaded readings
+export type VerifiedAnswer = { id: string; question: string; verifiedBy?: string };
+export type ChatPayload = {
+  answer: string;
+  sources: Citation[];
+  similarity?: number | null;
+  tool?: string;
+  verified?: VerifiedAnswer;
+  plots?: Plot[];
+};
+
+// `image` is a photo the student attached ("what is this component?"); `table` holds readings
+// sent for analysis ("analyze my results")
+export type ChatInput = { question: string; history?: ChatTurn[]; experimentId?: string; image?: ImageUpload; table?: ReadingsTable };
+
+export type IntentKind = "greeting" | "calculator" | "image" | "identify" | "analysis" | "web" | "lab-qa";
+
+// `confidence` is in [0, 1]; `source` tells whether rules or the model decided
+export type Intent = { kind: IntentKind; confidence: number; source: "rules" | "llm"; reason: string };
+
+// Retrieval details reported alongside the plan (used by the evaluation harness). `webSearch`
+// is set by lab QA, which decides on the web fallback: what triggered it and how it went.
+export type RetrievalTrace = {
+  intent: IntentKind;
+  query: string;
+  ranked: string[];
+  similarity: number | null;
+  web: boolean;
+  webSearch?: WebSearchDiagnostics;
+  rerank?: RerankStats;
+};
+
+// Either a finished answer (greeting, images, nothing found), or a prompt for the model plus
+// `finalize` to post-process whatever it generated and `fallback` for when it fails.
+export type AnswerPlan = { trace: RetrievalTrace } & (
+  | { payload: ChatPayload }
+  | { prompt: string; finalize: (answer: string) => ChatPayload; fallback: () => string }
+);
+
+// Shared by the handlers of one request; the rewritten query and retrieval run at most once
+export type IntentContext = {
+  input: ChatInput;
+  deps: ChatDeps;
+  intent: Intent;
+  query: () => Promise<string>;
+  retrieve: () => Promise<Retrieval>;
+};
+
+// Returns null to hand the question on to lab QA (e.g. an image request with no matching image)
+export type IntentHandler = (ctx: IntentContext) => Promise<AnswerPlan | null>;
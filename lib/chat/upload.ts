@@ -0,0 +1,42 @@
+// Photos students attach to a question ("what is this component?"). Accepted as a multipart
+// `image` file or, in JSON, as a data URL or { data: base64, mime }.
+export type ImageUpload = { data: Buffer; mime: string };
+
+export const maxUploadBytes = () => {
+  const n = parseInt(String(process.env.MAX_UPLOAD_BYTES ?? ""), 10);
+  return Number.isFinite(n) && n > 0 ? n : 5 * 1024 * 1024;
+};
+
+// The type is read from the bytes; the client's claim is not trusted
+const sniffMime = (b: Buffer): string | null => {
+  if (b.length >= 8 && b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (b.length >= 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return "image/jpeg";
+  if (b.length >= 6 && /^GIF8[79]a$/.test(b.subarray(0, 6).toString("latin1"))) return "image/gif";
+  if (b.length >= 12 && b.subarray(0, 4).toString("latin1") === "RIFF" && b.subarray(8, 12).toString("latin1") === "WEBP") return "image/webp";
+  return null;
+};
+
+const fromBase64 = (s: string) => {
+  const m = s.match(/^data:([\w/+.-]+)?;base64,([\s\S]*)$/);
+  return Buffer.from((m ? m[2] : s).replace(/\s+/g, ""), "base64");
+};
+
+export async function parseImageUpload(raw: unknown): Promise<{ image?: ImageUpload; error?: string }> {
+  if (raw == null || raw === "") return {};
+  let data: Buffer;
+  if (typeof Blob !== "undefined" && raw instanceof Blob) {
+    if (raw.size > maxUploadBytes()) return { error: `Image is larger than ${Math.round(maxUploadBytes() / 1024 / 1024)} MB` };
+    data = Buffer.from(await raw.arrayBuffer());
+  } else if (typeof raw === "string") {
+    data = fromBase64(raw);
+  } else if (typeof (raw as { data?: unknown })?.data === "string") {
+    data = fromBase64((raw as { data: string }).data);
+  } else {
+    return { error: "Invalid 'image': send a file, a data URL or { data, mime }" };
+  }
+  if (!data.length) return { error: "Empty 'image'" };
+  if (data.length > maxUploadBytes()) return { error: `Image is larger than ${Math.round(maxUploadBytes() / 1024 / 1024)} MB` };
+  const mime = sniffMime(data);
+  if (!mime) return { error: "Unsupported image type (use PNG, JPEG, GIF or WebP)" };
+  return { image: { data, mime } };
+}
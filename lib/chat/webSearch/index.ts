@@ -0,0 +1,64 @@
+import { createMockProvider } from "./mock";
+import { createTavilyProvider } from "./tavily";
+import type { WebSearchOutcome, WebSearchProvider } from "./types";
+
+export type * from "./types";
+export { createMockProvider } from "./mock";
+export { createTavilyProvider } from "./tavily";
+
+const DEFAULT_DOMAINS = ["vlab.co.in", "nptel.ac.in", "wikipedia.org"];
+const MAX_RESULTS = 6;
+const MAX_CONTENT = 2000;
+
+// WEB_SEARCH_DOMAINS: comma-separated sites web answers may draw on (default vlab, NPTEL, Wikipedia)
+export function webSearchDomains(): string[] {
+  const domains = (process.env.WEB_SEARCH_DOMAINS || "")
+    .split(",")
+    .map((d) => d.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/.*$/, ""))
+    .filter(Boolean);
+  return domains.length ? [...new Set(domains)] : DEFAULT_DOMAINS;
+}
+
+// "en.wikipedia.org" is covered by "wikipedia.org"; "notwikipedia.org" is not
+export function allowedDomain(url: string, domains: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return false;
+  }
+  return domains.some((d) => host === d || host.endsWith(`.${d}`));
+}
+
+// WEB_SEARCH_PROVIDER=tavily|mock|off; defaults to Tavily when TAVILY_API_KEY is set, else off
+export function webSearchProviderKind(): WebSearchProvider["kind"] | "off" {
+  const explicit = (process.env.WEB_SEARCH_PROVIDER || "").trim().toLowerCase();
+  if (explicit === "tavily" || explicit === "mock" || explicit === "off") return explicit;
+  if (explicit) throw new Error(`Unknown WEB_SEARCH_PROVIDER '${explicit}'. Use 'tavily', 'mock' or 'off'.`);
+  return process.env.TAVILY_API_KEY ? "tavily" : "off";
+}
+
+export function getWebSearchProvider(): WebSearchProvider | null {
+  const kind = webSearchProviderKind();
+  return kind === "tavily" ? createTavilyProvider() : kind === "mock" ? createMockProvider() : null;
+}
+
+// Never rejects: a failed search resolves with no results and the reason in `error`
+export async function searchWeb(query: string, provider?: WebSearchProvider | null): Promise<WebSearchOutcome> {
+  let active: WebSearchProvider | null = null;
+  try {
+    active = provider === undefined ? getWebSearchProvider() : provider;
+    if (!active) return { provider: null, results: [], received: 0, error: "Web search is off (set TAVILY_API_KEY or WEB_SEARCH_PROVIDER)" };
+    const domains = webSearchDomains();
+    const found = await active.search(query, { domains, maxResults: MAX_RESULTS });
+    const results = found
+      .filter((r) => allowedDomain(r.url, domains))
+      .slice(0, MAX_RESULTS)
+      .map((r) => ({ ...r, content: r.content.slice(0, MAX_CONTENT) }));
+    return { provider: active.kind, results, received: found.length };
+  } catch (err) {
+    const error = (err as Error)?.message || String(err);
+    console.warn(`Web search${active ? ` (${active.kind})` : ""} failed: ${error}`);
+    return { provider: active?.kind ?? null, results: [], received: 0, error };
+  }
+}
@@ -0,0 +1,38 @@
+import fs from "fs";
+import path from "path";
+import type { WebResult, WebSearchProvider } from "./types";
+
+// Offline provider for tests and evaluation runs. Results come from a list or a JSON file
+// (WEB_SEARCH_MOCK_FILE): an array of { title, url, content, match? }, where an entry with
+// `match` words is only returned for queries mentioning one of them. A file holding
+// { "error": "..." } makes every search fail with that message.
+export type MockWebEntry = WebResult & { match?: string[] };
+
+function loadEntries(file: string): MockWebEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), file), "utf8"));
+  } catch (err) {
+    throw new Error(`Could not read mock web results ${file}: ${(err as Error)?.message || err}`);
+  }
+  if (data && typeof data === "object" && !Array.isArray(data) && typeof (data as { error?: unknown }).error === "string") {
+    throw new Error((data as { error: string }).error);
+  }
+  if (!Array.isArray(data)) throw new Error(`Mock web results ${file} must be a JSON array`);
+  return data.filter((e) => typeof e?.url === "string");
+}
+
+export function createMockProvider(source: MockWebEntry[] | string | undefined = process.env.WEB_SEARCH_MOCK_FILE): WebSearchProvider {
+  return {
+    kind: "mock",
+    async search(query, { maxResults }) {
+      if (source === undefined) throw new Error("WEB_SEARCH_MOCK_FILE is not set");
+      const entries = typeof source === "string" ? loadEntries(source) : source;
+      const q = query.toLowerCase();
+      return entries
+        .filter((e) => !e.match?.length || e.match.some((w) => q.includes(w.toLowerCase())))
+        .slice(0, maxResults)
+        .map((e) => ({ title: e.title || "", url: e.url, content: e.content || "" }));
+    },
+  };
+}
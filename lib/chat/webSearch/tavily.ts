@@ -0,0 +1,34 @@
+import type { WebResult, WebSearchProvider } from "./types";
+
+type TavilyResult = { title?: string; url?: string; content?: string; raw_content?: string | null };
+
+// Tavily search restricted to the allowed domains (they are filtered again after the call)
+export function createTavilyProvider(apiKey = process.env.TAVILY_API_KEY): WebSearchProvider {
+  return {
+    kind: "tavily",
+    async search(query, { domains, maxResults }) {
+      if (!apiKey) throw new Error("TAVILY_API_KEY is not set");
+      const res = await fetch("https://api.tavily.com/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          api_key: apiKey,
+          query,
+          search_depth: "advanced",
+          max_results: maxResults,
+          include_answer: false,
+          include_raw_content: true,
+          include_images: false,
+          include_domains: domains,
+        }),
+      } as RequestInit);
+      if (!res.ok) {
+        const detail = (await res.text().catch(() => "")).trim();
+        throw new Error(`Tavily error ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+      }
+      const data = (await res.json()) as { results?: TavilyResult[] };
+      const results = Array.isArray(data?.results) ? data.results : [];
+      return results.map((r): WebResult => ({ title: r?.title || "", url: r?.url || "", content: r?.raw_content || r?.content || "" }));
+    },
+  };
+}
@@ -0,0 +1,36 @@
+// Web results the lab QA handler adds when retrieval is weak. Providers only search; the domain
+// allowlist and the bookkeeping in WebSearchOutcome are applied in ./index.ts for all of them.
+export type WebResult = { title: string; url: string; content: string };
+
+export type WebSearchRequest = { domains: string[]; maxResults: number };
+
+export interface WebSearchProvider {
+  readonly kind: "tavily" | "mock";
+  // Rejects with a readable reason (missing key, HTTP status) rather than resolving to nothing
+  search(query: string, req: WebSearchRequest): Promise<WebResult[]>;
+}
+
+// One search: the results kept after domain filtering, and why there may be none
+export type WebSearchOutcome = {
+  provider: WebSearchProvider["kind"] | null;
+  results: WebResult[];
+  // Results the provider returned, before domain filtering
+  received: number;
+  error?: string;
+};
+
+// "requested": the student asked for web results; "low-similarity": the best lab chunk scored
+// below SEARCH_SIM_THRESHOLD
+export type WebTrigger = "requested" | "low-similarity";
+
+// Why the web was (or was not) consulted for an answer, reported on RetrievalTrace.webSearch
+export type WebSearchDiagnostics = {
+  triggered: boolean;
+  rule: WebTrigger | null;
+  similarity: number | null;
+  threshold: number;
+  provider: WebSearchProvider["kind"] | null;
+  error?: string;
+  received: number;
+  kept: number;
+};
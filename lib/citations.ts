@@ -0,0 +1,84 @@
+import path from "path";
+import type { SearchHit } from "./vectorStore";
+
+// A numbered source sent to the model. `n` is what the answer cites as [n]; `id` is the
+// stored chunk uid (or the URL for web results) and stays the same across requests.
+export type Citation = {
+  n: number;
+  id: string;
+  kind: "doc" | "web" | "image";
+  document: string;
+  section?: string;
+  heading?: string;
+  page?: number;
+  anchor?: string;
+  url?: string;
+  snippet: string;
+  // Alt text for image sources
+  alt?: string;
+  cited?: boolean;
+};
+
+const SNIPPET_CHARS = 600;
+
+const snippetOf = (text: string) => (text.length > SNIPPET_CHARS ? `${text.slice(0, SNIPPET_CHARS)} ...` : text);
+
+export function docCitation(d: SearchHit, n: number): Citation {
+  const source = typeof d.source === "string" ? d.source : "";
+  const document =
+    (typeof d.experimentTitle === "string" && d.experimentTitle) || (source && path.basename(source)) || "Lab document";
+  return {
+    n,
+    id: d.uid,
+    kind: "doc",
+    document,
+    section: typeof d.section === "string" && d.section !== "general" ? d.section : undefined,
+    heading: typeof d.heading === "string" && d.heading ? d.heading : undefined,
+    page: typeof d.page === "number" ? d.page : undefined,
+    anchor: typeof d.anchor === "string" ? d.anchor : undefined,
+    snippet: snippetOf(String(d.text ?? "")),
+  };
+}
+
+export const webCitation = (r: { title: string; url: string; content: string }, n: number): Citation => ({
+  n,
+  id: r.url,
+  kind: "web",
+  document: r.title || r.url,
+  url: r.url,
+  snippet: snippetOf(r.content),
+});
+
+// `path` is the public path of the image, e.g. "images/a.png"
+export const imageCitation = (img: { path: string; title?: string; caption?: string; alt?: string }, n: number): Citation => ({
+  n,
+  id: img.path,
+  kind: "image",
+  document: img.title || path.basename(img.path),
+  url: `/${img.path}`,
+  snippet: img.caption ?? "",
+  alt: img.alt || img.caption || img.title || path.basename(img.path),
+});
+
+// "[2] Ohm's Law · procedure · p. 3", the label the model sees above each source
+export function citationLabel(c: Citation) {
+  const where = [c.section, c.page ? `p. ${c.page}` : ""].filter(Boolean).join(" · ");
+  return `[${c.n}] ${c.document}${where ? ` · ${where}` : ""}`;
+}
+
+// Markers look like [1], [2, 3] or [1][4]; markers naming no sent source are dropped
+const MARKER_RE = /([ \t]?)\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?!\()/g;
+
+export function validateCitations(answer: string, citations: Citation[]) {
+  const known = new Set(citations.map((c) => c.n));
+  const cited = new Set<number>();
+  const text = answer.replace(MARKER_RE, (_m, lead: string, list: string) => {
+    const ns = list.split(",").map((s) => Number(s.trim())).filter((n) => known.has(n));
+    ns.forEach((n) => cited.add(n));
+    return ns.length ? `${lead}${ns.map((n) => `[${n}]`).join("")}` : "";
+  });
+  return {
+    answer: text,
+    citations: citations.map((c) => ({ ...c, cited: cited.has(c.n) })),
+  };
+}
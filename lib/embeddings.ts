@@ -0,0 +1,179 @@
+import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+
+// Shared embedding setup for seeding (scripts/loadDB.ts) and serving (/api/chat).
+// Both sides must resolve the same provider, model and collection, so everything lives here.
+export type Embedder = (text: string) => Promise<number[]>;
+export type ImageEmbedder = (data: Buffer, mime: string) => Promise<number[]>;
+
+export type EmbeddingProvider = {
+  id: string;
+  // Model id recorded on every stored document
+  model: string;
+  dim: number;
+  // Appended to ASTRA_DB_COLLECTION so vectors of different sizes never share a collection
+  suffix: string;
+  // Older model ids written for the same model, still accepted as a match
+  legacyModels?: string[];
+  create: () => Promise<{ embed: Embedder; embedImage?: ImageEmbedder }>;
+};
+
+export type EmbeddingModel = {
+  provider: string;
+  model: string;
+  dim: number;
+  collectionName: string;
+  embed: Embedder;
+  embedImage?: ImageEmbedder;
+};
+
+const MM_URL = "https://generativelanguage.googleapis.com/v1beta/models/multimodalembedding@001:embedContent";
+
+const geminiKey = (what: string) => {
+  const key = process.env.GEMINI_API_KEY;
+  if (!key) {
+    throw new Error(`GEMINI_API_KEY is required for ${what}. Set EMBED_PROVIDER=xenova to use local embeddings.`);
+  }
+  return key;
+};
+
+const embedMultimodal = async (apiKey: string, part: Record<string, unknown>) => {
+  const res = await fetch(MM_URL + `?key=${encodeURIComponent(apiKey)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ content: { parts: [part] } }),
+  });
+  if (!res.ok) throw new Error(`Multimodal embed failed: ${res.status}`);
+  const data = await res.json();
+  const values: number[] | undefined = data?.embedding?.values;
+  if (!Array.isArray(values)) throw new Error("No embedding.values returned");
+  return values;
+};
+
+const registry = new Map<string, EmbeddingProvider>();
+const aliases = new Map<string, string>();
+let cached: { id: string; model: Promise<EmbeddingModel> } | null = null;
+
+export function registerEmbeddingProvider(spec: EmbeddingProvider, names: string[] = []) {
+  registry.set(spec.id, spec);
+  for (const n of [spec.id, ...names]) aliases.set(n.toLowerCase(), spec.id);
+  cached = null;
+}
+
+registerEmbeddingProvider({
+  id: "google",
+  model: "text-embedding-004",
+  dim: 768,
+  suffix: "",
+  create: async () => {
+    const embeddings = new GoogleGenerativeAIEmbeddings({ apiKey: geminiKey("google embeddings"), model: "text-embedding-004" });
+    const embed: Embedder = async (text: string) => {
+      const out: unknown = await embeddings.embedQuery(text);
+      if (Array.isArray(out) && typeof out[0] === "number") return out as number[];
+      const vec = (out as { data?: Array<{ embedding?: number[] }> })?.data?.[0]?.embedding;
+      if (!vec) throw new Error("Failed to get embedding vector from Google API response");
+      return vec;
+    };
+    return { embed };
+  },
+});
+
+registerEmbeddingProvider(
+  {
+    id: "multimodal",
+    model: "multimodalembedding@001",
+    dim: 1408,
+    suffix: "_mm",
+    create: async () => {
+      const apiKey = geminiKey("multimodalembedding@001");
+      return {
+        embed: (text: string) => embedMultimodal(apiKey, { text }),
+        embedImage: (data: Buffer, mime: string) =>
+          embedMultimodal(apiKey, { inline_data: { mime_type: mime, data: data.toString("base64") } }),
+      };
+    },
+  },
+  ["google-mm", "mm"]
+);
+
+registerEmbeddingProvider({
+  id: "xenova",
+  model: "Xenova/all-MiniLM-L6-v2",
+  dim: 384,
+  suffix: "_xv",
+  legacyModels: ["MiniLM-L6-v2"],
+  create: async () => {
+    const { pipeline } = await import("@xenova/transformers");
+    const extractor = await pipeline("feature-extraction", "Xenova/all-MiniLM-L6-v2");
+    const embed: Embedder = async (text: string) => {
+      const output = await extractor(text, { pooling: "mean", normalize: true });
+      const data = output?.data as Float32Array | undefined;
+      if (!data) throw new Error("Failed to compute local embedding");
+      return Array.from(data);
+    };
+    return { embed };
+  },
+});
+
+// EMBED_PROVIDER picks the provider (default google); an EMBED_MODEL mentioning "multimodal" forces multimodal
+export function resolveEmbeddingProvider(): EmbeddingProvider {
+  const name = (process.env.EMBED_PROVIDER || "google").trim().toLowerCase();
+  const id = /multimodal/.test(String(process.env.EMBED_MODEL || "")) ? "multimodal" : aliases.get(name);
+  const spec = id ? registry.get(id) : undefined;
+  if (!spec) {
+    throw new Error(`Unknown EMBED_PROVIDER '${name}'. Available: ${[...registry.keys()].join(", ")}`);
+  }
+  return spec;
+}
+
+export const collectionNameFor = (spec: EmbeddingProvider) =>
+  `${process.env.ASTRA_DB_COLLECTION || "experiment_docs"}${spec.suffix}`;
+
+// Provider clients (notably the local Xenova pipeline) are created once per process
+export function getEmbedder(): Promise<EmbeddingModel> {
+  const spec = resolveEmbeddingProvider();
+  if (cached?.id !== spec.id) {
+    const model = spec.create().then(({ embed, embedImage }) => ({
+      provider: spec.id,
+      model: spec.model,
+      dim: spec.dim,
+      collectionName: collectionNameFor(spec),
+      embed,
+      embedImage,
+    }));
+    // Do not cache a failed setup (e.g. missing key); the next call retries
+    model.catch(() => {
+      if (cached?.model === model) cached = null;
+    });
+    cached = { id: spec.id, model };
+  }
+  return cached.model;
+}
+
+// Cosine similarity of two vectors from the same model; 0 when they cannot be compared
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+// Compare the query model against the `model` recorded on stored documents.
+// EMBED_MISMATCH=warn only logs; the default refuses, since similarities across models are meaningless.
+export function checkStoredModel(embedder: EmbeddingModel, docs: Array<Record<string, unknown>>): string | null {
+  const spec = registry.get(embedder.provider);
+  const accepted = new Set([embedder.model, ...(spec?.legacyModels ?? [])]);
+  const stored = docs.map((d) => d?.model).find((m): m is string => typeof m === "string" && !!m);
+  if (!stored || accepted.has(stored)) return null;
+  const message =
+    `Collection ${embedder.collectionName} was embedded with '${stored}' but queries use '${embedder.model}'. ` +
+    `Re-run the seed script with the same EMBED_PROVIDER, or set EMBED_MISMATCH=warn to continue anyway.`;
+  if ((process.env.EMBED_MISMATCH || "error").toLowerCase() === "warn") {
+    console.warn(message);
+    return message;
+  }
+  throw new Error(message);
+}
@@ -0,0 +1,9 @@
+// Numeric settings from the environment. Each caller gives the range that makes sense for it;
+// a value that is missing, not a number or outside [min, max] uses the default.
+export type NumberBounds = { min?: number; max?: number; integer?: boolean };
+
+export function numberEnv(name: string, fallback: number, { min = 0, max = Infinity, integer = false }: NumberBounds = {}): number {
+  const n = parseFloat(String(process.env[name] ?? ""));
+  if (!Number.isFinite(n) || n < min || n > max) return fallback;
+  return integer ? Math.floor(n) : n;
+}
@@ -0,0 +1,34 @@
+import fs from "fs";
+import path from "path";
+
+// Catalogue of ingested experiments, written by scripts/loadDB.ts and read by the app
+export type Experiment = { id: string; title: string; source: string; chunks: number };
+
+export const EXPERIMENT_ID_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export const slugify = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64) || "experiment";
+
+export const experimentsCatalogPath = () =>
+  path.resolve(process.cwd(), process.env.EXPERIMENTS_CATALOG || ".data/experiments.json");
+
+export function loadExperiments(): Experiment[] {
+  try {
+    const data = JSON.parse(fs.readFileSync(experimentsCatalogPath(), "utf8"));
+    return Array.isArray(data) ? data.filter((e) => typeof e?.id === "string" && typeof e?.title === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveExperiments(list: Experiment[]) {
+  const file = experimentsCatalogPath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const sorted = [...list].sort((a, b) => a.title.localeCompare(b.title));
+  fs.writeFileSync(file, JSON.stringify(sorted, null, 2) + "\n");
+}
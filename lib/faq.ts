@@ -0,0 +1,114 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { cosineSimilarity, type EmbeddingModel } from "./embeddings";
+
+// Verified answers written by instructors (app/admin/faq, or promoted from the feedback
+// dashboard). A question close enough to an entry's gets its answer instead of a generated one.
+export type FaqEntry = {
+  id: string;
+  question: string;
+  answer: string;
+  // Only questions asked within this experiment match; unset matches everywhere
+  experimentId?: string;
+  // Name shown on the "verified by instructor" badge
+  verifiedBy?: string;
+  // Feedback entry the answer was promoted from
+  feedbackId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type FaqFields = Pick<FaqEntry, "question" | "answer" | "experimentId" | "verifiedBy">;
+
+export type FaqMatch = { entry: FaqEntry; similarity: number };
+
+export const faqPath = () => path.resolve(process.cwd(), process.env.FAQ_FILE || ".data/faq.json");
+
+export function loadFaq(): FaqEntry[] {
+  try {
+    const data = JSON.parse(fs.readFileSync(faqPath(), "utf8"));
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveFaq(list: FaqEntry[]) {
+  const file = faqPath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(list, null, 2) + "\n");
+  fs.renameSync(tmp, file);
+}
+
+// Validates fields sent by the admin page; `partial` allows leaving fields out (edits)
+export function parseFaqFields(raw: unknown, partial = false): { fields?: Partial<FaqFields>; error?: string } {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const fields: Partial<FaqFields> = {};
+  for (const key of ["question", "answer", "experimentId", "verifiedBy"] as const) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null && typeof body[key] !== "string") return { error: `Invalid '${key}'` };
+    // Empty optional fields are cleared
+    fields[key] = String(body[key] ?? "").trim() || undefined;
+  }
+  if ((!partial || "question" in fields) && !fields.question) return { error: "Missing 'question'" };
+  if ((!partial || "answer" in fields) && !fields.answer) return { error: "Missing 'answer'" };
+  return { fields };
+}
+
+export function addFaqEntry(init: FaqFields & { feedbackId?: string }): FaqEntry {
+  const now = new Date().toISOString();
+  const entry: FaqEntry = { id: crypto.randomBytes(8).toString("hex"), ...init, createdAt: now, updatedAt: now };
+  saveFaq([...loadFaq(), entry]);
+  return entry;
+}
+
+export function updateFaqEntry(id: string, patch: Partial<FaqFields>): FaqEntry | null {
+  const list = loadFaq();
+  const entry = list.find((e) => e.id === id);
+  if (!entry) return null;
+  Object.assign(entry, patch, { updatedAt: new Date().toISOString() });
+  saveFaq(list);
+  return entry;
+}
+
+export function deleteFaqEntry(id: string): boolean {
+  const list = loadFaq();
+  const rest = list.filter((e) => e.id !== id);
+  if (rest.length === list.length) return false;
+  saveFaq(rest);
+  return true;
+}
+
+export function faqMatchThreshold(): number {
+  const n = parseFloat(String(process.env.FAQ_MATCH_THRESHOLD ?? "0.9"));
+  return Number.isFinite(n) ? n : 0.9;
+}
+
+// Entry questions are embedded once per model and text, on first use
+const vectors = new Map<string, Promise<number[]>>();
+const questionVector = (embedder: EmbeddingModel, text: string) => {
+  const key = `${embedder.model}\n${text}`;
+  let v = vectors.get(key);
+  if (!v) {
+    v = embedder.embed(text);
+    vectors.set(key, v);
+    v.catch(() => vectors.delete(key));
+  }
+  return v;
+};
+
+// Best entry for the question above the threshold; an entry scoped to the experiment wins a tie
+export async function matchFaq(question: string, experimentId: string | undefined, embedder: EmbeddingModel): Promise<FaqMatch | null> {
+  const candidates = loadFaq().filter((e) => !e.experimentId || e.experimentId === experimentId);
+  if (!candidates.length) return null;
+  const q = await embedder.embed(question);
+  let best: FaqMatch | null = null;
+  for (const entry of candidates) {
+    const similarity = cosineSimilarity(q, await questionVector(embedder, entry.question));
+    const better = !best || similarity > best.similarity || (similarity === best.similarity && !!entry.experimentId);
+    if (better) best = { entry, similarity };
+  }
+  return best && best.similarity >= faqMatchThreshold() ? best : null;
+}
@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { IntentKind } from "./chat/types";
+
+// Thumbs up/down on answers, with what the answer was based on, so reviewers can find
+// bad answers and turn them into golden-set cases or FAQ entries (app/admin/feedback).
+export type FeedbackRating = "up" | "down";
+export type FeedbackStatus = "new" | "promoted" | "dismissed";
+
+export type Feedback = {
+  id: string;
+  // Client id of the student who rated, when known; only they can change the rating
+  owner?: string;
+  rating: FeedbackRating;
+  comment?: string;
+  question: string;
+  answer: string;
+  experimentId?: string;
+  sessionId?: string;
+  intent?: IntentKind;
+  // Retrieved chunk uids, best first
+  chunks: string[];
+  similarity: number | null;
+  web: boolean;
+  status: FeedbackStatus;
+  // Where a reviewer copied the corrected answer
+  promotedTo?: { target: "golden" | "faq"; id: string; at: string };
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type FeedbackInput = Pick<
+  Feedback,
+  "rating" | "comment" | "question" | "answer" | "experimentId" | "sessionId" | "intent" | "chunks" | "similarity" | "web"
+>;
+
+const MAX_COMMENT = 2000;
+const MAX_TEXT = 20000;
+
+export const feedbackPath = () => path.resolve(process.cwd(), process.env.FEEDBACK_FILE || ".data/feedback.json");
+
+export function loadFeedback(): Feedback[] {
+  try {
+    const data = JSON.parse(fs.readFileSync(feedbackPath(), "utf8"));
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveFeedback(list: Feedback[]) {
+  const file = feedbackPath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(list, null, 2) + "\n");
+  fs.renameSync(tmp, file);
+}
+
+// Validates a rating sent by the page; returns the cleaned fields or an error message
+export function parseFeedback(raw: unknown): { input?: FeedbackInput; error?: string } {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const rating = body.rating;
+  if (rating !== "up" && rating !== "down") return { error: "Invalid 'rating': use up or down" };
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  const question = str(body.question);
+  const answer = str(body.answer);
+  if (!question || !answer) return { error: "Missing 'question' or 'answer'" };
+  const trace = (body.trace && typeof body.trace === "object" ? body.trace : {}) as Record<string, unknown>;
+  return {
+    input: {
+      rating,
+      comment: str(body.comment)?.slice(0, MAX_COMMENT),
+      question: question.slice(0, MAX_TEXT),
+      answer: answer.slice(0, MAX_TEXT),
+      experimentId: str(body.experimentId),
+      sessionId: str(body.sessionId),
+      intent: str(trace.intent) as IntentKind | undefined,
+      chunks: Array.isArray(trace.ranked) ? trace.ranked.filter((c): c is string => typeof c === "string").slice(0, 50) : [],
+      similarity: typeof trace.similarity === "number" ? trace.similarity : null,
+      web: trace.web === true,
+    },
+  };
+}
+
+// A second vote on the same answer (same id) replaces the first; null when the id is not the caller's
+export function recordFeedback(input: FeedbackInput, opts: { id?: string; owner?: string } = {}): Feedback | null {
+  const list = loadFeedback();
+  const now = new Date().toISOString();
+  const existing = opts.id ? list.find((f) => f.id === opts.id) : undefined;
+  if (opts.id && (!existing || existing.owner !== opts.owner)) return null;
+  if (existing) {
+    // The rated answer stays as first recorded; only the verdict changes
+    Object.assign(existing, { rating: input.rating, comment: input.comment, updatedAt: now });
+    saveFeedback(list);
+    return existing;
+  }
+  const entry: Feedback = {
+    id: crypto.randomBytes(8).toString("hex"),
+    owner: opts.owner,
+    ...input,
+    status: "new",
+    createdAt: now,
+    updatedAt: now,
+  };
+  list.push(entry);
+  saveFeedback(list);
+  return entry;
+}
+
+// What the review dashboard sees: student client ids stay on the server
+export const forReview = (f: Feedback): Feedback => ({ ...f, owner: undefined });
+
+export function updateFeedback(id: string, patch: Partial<Pick<Feedback, "status" | "promotedTo">>): Feedback | null {
+  const list = loadFeedback();
+  const entry = list.find((f) => f.id === id);
+  if (!entry) return null;
+  Object.assign(entry, patch, { updatedAt: new Date().toISOString() });
+  saveFeedback(list);
+  return entry;
+}
@@ -0,0 +1,131 @@
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { HumanMessage } from "langchain";
+
+type GeminiOptions = { temperature?: number };
+
+export function geminiSettings() {
+  const { GEMINI_API_KEY, GOOGLE_API_KEY, GEMINI_MODEL, GEMINI_API_VERSION } =
+    process.env as Record<string, string>;
+  const apiKey = GOOGLE_API_KEY || GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("Missing Google API key. Set GOOGLE_API_KEY (preferred) or GEMINI_API_KEY in your environment.");
+  }
+
+  const preferred: Array<{ v: string; m: string }> = [];
+  if (GEMINI_MODEL && GEMINI_API_VERSION) preferred.push({ v: GEMINI_API_VERSION, m: GEMINI_MODEL });
+  if (GEMINI_MODEL) preferred.push({ v: "v1", m: GEMINI_MODEL }, { v: "v1beta", m: GEMINI_MODEL });
+  preferred.push(
+    { v: "v1", m: "gemini-1.5-flash" },
+    { v: "v1", m: "gemini-1.5-flash-8b" },
+    { v: "v1", m: "gemini-1.5-pro" },
+    { v: "v1beta", m: "gemini-2.0-flash" },
+    { v: "v1beta", m: "gemini-1.5-flash" },
+    { v: "v1beta", m: "gemini-pro" }
+  );
+  const seen = new Set<string>();
+  const candidates = preferred.filter((c) => {
+    const key = `${c.v}|${c.m}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { apiKey, candidates };
+}
+
+// Gemini may return array parts; join any text fields
+export function contentToText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((p) =>
+      typeof p === "string"
+        ? p
+        : typeof p?.text === "string"
+        ? p.text
+        : typeof p?.content === "string"
+        ? p.content
+        : ""
+    )
+    .join("");
+}
+
+const failure = (candidates: Array<{ v: string; m: string }>, lastErr: unknown) =>
+  new Error(
+    `Failed to call Gemini. Tried: ${candidates.map((c) => `${c.v}:${c.m}`).join(", ")} Last error: ${
+      (lastErr as Error)?.message || lastErr
+    }`
+  );
+
+// Try each configured model/version in turn and return the first answer
+export async function generateText(prompt: string, { temperature = 0.2 }: GeminiOptions = {}) {
+  const { apiKey, candidates } = geminiSettings();
+
+  let lastErr: unknown = null;
+  for (const c of candidates) {
+    try {
+      const model = new ChatGoogleGenerativeAI({ apiKey, model: c.m, apiVersion: c.v, temperature });
+      // Use invoke with a plain string to avoid unsupported message formats
+      const msg = await model.invoke(prompt);
+      const content = msg?.content ?? msg?.text;
+      if (typeof content === "string") return content;
+      if (Array.isArray(content)) return contentToText(content).trim();
+      return typeof msg === "string" ? msg : "";
+    } catch (e) {
+      lastErr = e;
+    }
+  }
+  throw failure(candidates, lastErr);
+}
+
+// Vision variant of generateText: the prompt is sent together with one inline image
+export async function generateWithImage(
+  prompt: string,
+  image: { data: Buffer; mime: string },
+  { temperature = 0.2 }: GeminiOptions = {}
+) {
+  const { apiKey, candidates } = geminiSettings();
+  const message = new HumanMessage({
+    content: [
+      { type: "text", text: prompt },
+      { type: "image_url", image_url: `data:${image.mime};base64,${image.data.toString("base64")}` },
+    ],
+  });
+
+  let lastErr: unknown = null;
+  for (const c of candidates) {
+    try {
+      const model = new ChatGoogleGenerativeAI({ apiKey, model: c.m, apiVersion: c.v, temperature });
+      const msg = await model.invoke([message]);
+      return contentToText(msg?.content).trim();
+    } catch (e) {
+      lastErr = e;
+    }
+  }
+  throw failure(candidates, lastErr);
+}
+
+// Streaming variant: yields text deltas as Gemini produces them. A model is only
+// skipped for the next candidate if it fails before emitting anything.
+export async function* streamText(prompt: string, { temperature = 0.2 }: GeminiOptions = {}) {
+  const { apiKey, candidates } = geminiSettings();
+
+  let lastErr: unknown = null;
+  for (const c of candidates) {
+    let emitted = false;
+    try {
+      const model = new ChatGoogleGenerativeAI({ apiKey, model: c.m, apiVersion: c.v, temperature });
+      const stream = await model.stream(prompt);
+      for await (const chunk of stream) {
+        const text = contentToText(chunk?.content);
+        if (!text) continue;
+        emitted = true;
+        yield text;
+      }
+      return;
+    } catch (e) {
+      if (emitted) throw e;
+      lastErr = e;
+    }
+  }
+  throw failure(candidates, lastErr);
+}
@@ -0,0 +1,49 @@
+import fs from "fs";
+import path from "path";
+import { Document, isSeq, parseDocument } from "yaml";
+import type { ChatTurn } from "./history";
+import { slugify } from "./experiments";
+
+// Questions with known answers for scripts/eval.ts (eval/golden.yaml)
+export type Fact = string | string[];
+export type GoldenCase = {
+  id: string;
+  question: string;
+  experimentId?: string;
+  history?: ChatTurn[];
+  // uids of chunks that answer the question (see the "retrieved" column of a previous report)
+  expectedChunks?: string[];
+  // Key facts the answer must mention; a list means any of the alternatives counts
+  facts?: Fact[];
+  // Reviewed answer, for people maintaining the set; not scored
+  answer?: string;
+};
+
+export const goldenSetPath = () => path.resolve(process.cwd(), process.env.GOLDEN_SET || "eval/golden.yaml");
+
+// Adds a case reviewed in app/admin/feedback, keeping the file's comments; the id is made unique
+export function appendGoldenCase(c: Omit<GoldenCase, "id"> & { id?: string }, file = goldenSetPath()): GoldenCase {
+  const text = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+  const doc: Document = text.trim() ? parseDocument(text) : new Document([]);
+  if (!isSeq(doc.contents)) throw new Error(`${path.basename(file)} is not a list of cases`);
+  const taken = new Set(((doc.toJS() ?? []) as Array<{ id?: unknown }>).map((x) => String(x?.id ?? "")));
+  const base = c.id || slugify(c.question).slice(0, 40);
+  let id = base;
+  for (let i = 2; taken.has(id); i++) id = `${base}-${i}`;
+  // Same key order as the hand-written cases; empty lists are left out
+  const entry: GoldenCase = {
+    id,
+    question: c.question,
+    ...(c.experimentId ? { experimentId: c.experimentId } : {}),
+    ...(c.history?.length ? { history: c.history } : {}),
+    ...(c.expectedChunks?.length ? { expectedChunks: c.expectedChunks } : {}),
+    ...(c.facts?.length ? { facts: c.facts } : {}),
+    ...(c.answer ? { answer: c.answer } : {}),
+  };
+  const node = doc.createNode(entry);
+  node.spaceBefore = true;
+  doc.add(node);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, doc.toString({ lineWidth: 0, flowCollectionPadding: false }));
+  return entry;
+}
@@ -0,0 +1,86 @@
+// Conversation memory for /api/chat: the client sends prior turns in the same
+// shape as `Message` in app/page.tsx; only role and content are used here.
+export type ChatTurn = { role: "user" | "assistant"; content: string };
+
+const MAX_TURNS = 40;
+const MAX_TURN_CHARS = 4000;
+
+// Rough token estimate (~4 characters per token) — good enough for budgeting prompts
+export const estimateTokens = (text: string) => Math.ceil((text || "").length / 4);
+
+export function parseHistory(raw: unknown): ChatTurn[] {
+  if (!Array.isArray(raw)) return [];
+  const turns: ChatTurn[] = [];
+  for (const m of raw.slice(-MAX_TURNS)) {
+    const role = m?.role;
+    const content = typeof m?.content === "string" ? m.content.trim() : "";
+    if ((role !== "user" && role !== "assistant") || !content) continue;
+    turns.push({ role, content: content.slice(0, MAX_TURN_CHARS) });
+  }
+  return turns;
+}
+
+export function historyTokenBudget(): number {
+  const n = parseInt(String(process.env.HISTORY_TOKEN_BUDGET ?? "1200"), 10);
+  return Number.isFinite(n) && n >= 0 ? n : 1200;
+}
+
+// Keep the most recent turns that fit in the budget. A turn that does not fit
+// whole is shortened from the front, then older turns are dropped.
+export function trimHistory(turns: ChatTurn[], budget = historyTokenBudget()): ChatTurn[] {
+  const kept: ChatTurn[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const t = turns[i];
+    const cost = estimateTokens(t.content) + 2;
+    if (used + cost <= budget) {
+      kept.unshift(t);
+      used += cost;
+      continue;
+    }
+    const remaining = (budget - used - 2) * 4;
+    if (remaining >= 200) kept.unshift({ role: t.role, content: "… " + t.content.slice(-remaining) });
+    break;
+  }
+  return kept;
+}
+
+export const formatHistory = (turns: ChatTurn[]) =>
+  turns.map((t) => `${t.role === "user" ? "Student" : "Assistant"}: ${t.content}`).join("\n\n");
+
+// Heuristic: does the question lean on earlier turns? Only with history, and only when it has a
+// pronoun or is elliptical ("and the ammeter?", "why?"); a short standalone question is not one.
+export function looksLikeFollowUp(question: string, history: ChatTurn[]): boolean {
+  if (!history.length) return false;
+  const q = question.trim().toLowerCase();
+  if (/\b(it|its|this|that|these|those|they|them|their|above|previous|same|former|latter)\b/.test(q)) return true;
+  if (/^(and|also|but|what about|how about|what if|ok(ay)?|more)\b/.test(q)) return true;
+  return /^(why|how|when|where|really)( not| so)?\s*\?*$/.test(q);
+}
+
+// Rewrite a follow-up into a self-contained search query. `generate` is the LLM call;
+// on failure the last student question is appended so retrieval still gets the topic.
+export async function rewriteStandalone(
+  question: string,
+  history: ChatTurn[],
+  generate: (prompt: string) => Promise<string>
+): Promise<string> {
+  if (!looksLikeFollowUp(question, history)) return question;
+  const recent = trimHistory(history, 600);
+  const prompt = `Rewrite the student's latest question into a standalone question that can be understood without the conversation.
+Resolve pronouns and references using the conversation. Keep the original intent and wording where possible.
+Return only the rewritten question, nothing else.
+
+Conversation:
+${formatHistory(recent)}
+
+Latest question: ${question}
+
+Standalone question:`;
+  try {
+    const out = (await generate(prompt)).trim().replace(/^["']|["']$/g, "");
+    if (out && out.length <= 500 && !/\n/.test(out)) return out;
+  } catch {}
+  const lastUser = [...history].reverse().find((t) => t.role === "user");
+  return lastUser ? `${question} (about: ${lastUser.content.slice(0, 200)})` : question;
+}
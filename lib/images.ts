@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import { isSeq, parse as parseYaml, parseDocument } from "yaml";
+
+// What one file in images/ shows, from images/manifest.yaml. `draft` entries were written by a
+// captioner (see lib/captioning.ts) and are ignored until someone reviews them and removes the flag.
+export type ImageKind = "photo" | "symbol" | "diagram" | "chart" | "table";
+export type ImageEntry = {
+  file: string;
+  title: string;
+  caption: string;
+  alt: string;
+  kind?: ImageKind;
+  tags: string[];
+  draft?: boolean;
+  captioner?: string;
+};
+
+const KINDS: ImageKind[] = ["photo", "symbol", "diagram", "chart", "table"];
+
+export const imageManifestPath = (imageDir = path.resolve(process.cwd(), "images")) =>
+  process.env.IMAGE_MANIFEST ? path.resolve(process.cwd(), process.env.IMAGE_MANIFEST) : path.join(imageDir, "manifest.yaml");
+
+// Entries without a file or title are dropped; a missing manifest is an empty catalogue
+export function loadImageCatalog(file = imageManifestPath()): ImageEntry[] {
+  let data: unknown;
+  try {
+    data = parseYaml(fs.readFileSync(file, "utf8"));
+  } catch {
+    return [];
+  }
+  const list = (data as { images?: unknown })?.images;
+  if (!Array.isArray(list)) return [];
+  const out: ImageEntry[] = [];
+  for (const e of list) {
+    if (typeof e?.file !== "string" || typeof e?.title !== "string") continue;
+    const caption = typeof e.caption === "string" ? e.caption.trim() : "";
+    out.push({
+      file: e.file,
+      title: e.title.trim(),
+      caption,
+      alt: typeof e.alt === "string" && e.alt.trim() ? e.alt.trim() : caption || e.title.trim(),
+      kind: KINDS.includes(e.kind) ? e.kind : undefined,
+      tags: Array.isArray(e.tags) ? e.tags.map((t: unknown) => String(t).toLowerCase().trim()).filter(Boolean) : [],
+      ...(e.draft === true ? { draft: true } : {}),
+      ...(typeof e.captioner === "string" ? { captioner: e.captioner } : {}),
+    });
+  }
+  return out;
+}
+
+export const isReviewed = (e: ImageEntry) => !e.draft;
+
+const MANIFEST_HEADER = ` Image catalogue: what each file in images/ shows.
+ Entries marked \`draft: true\` were generated by \`npm run seed\` (IMAGE_CAPTIONER); check the
+ title, caption, alt text and tags, then delete the \`draft\` line so the image gets indexed.`;
+
+// Add captioner drafts to the manifest, keeping the comments and layout of reviewed entries
+export function appendImageDrafts(file: string, drafts: ImageEntry[]) {
+  if (!drafts.length) return;
+  const existing = fs.existsSync(file);
+  const doc = parseDocument(existing ? fs.readFileSync(file, "utf8") : "");
+  if (!existing) doc.commentBefore = MANIFEST_HEADER;
+  if (!isSeq(doc.get("images"))) doc.set("images", doc.createNode([]));
+  for (const d of drafts) {
+    const node = doc.createNode({ ...d, draft: true });
+    const tags = node.get("tags", true);
+    if (isSeq(tags)) tags.flow = true;
+    doc.addIn(["images"], node);
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, doc.toString({ lineWidth: 0, flowCollectionPadding: false }));
+}
+
+// Reviewed entries only, re-read when the manifest changes
+let cached: { file: string; mtimeMs: number; entries: ImageEntry[] } | null = null;
+
+export function getImageCatalog(): ImageEntry[] {
+  const file = imageManifestPath();
+  let mtimeMs = 0;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    return [];
+  }
+  if (cached?.file !== file || cached.mtimeMs !== mtimeMs) cached = { file, mtimeMs, entries: loadImageCatalog(file).filter(isReviewed) };
+  return cached.entries;
+}
+
+// Text embedded for an image when the embedder cannot see pixels
+export const imageEmbedText = (e: ImageEntry) =>
+  [`${e.title}${e.kind ? ` (${e.kind})` : ""}.`, e.caption, e.tags.length ? `Components: ${e.tags.join(", ")}.` : "", e.alt]
+    .filter(Boolean)
+    .join(" ");
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const mentions = (text: string, term: string) => new RegExp(`\\b${escapeRe(term).replace(/\s+/g, "\\s+")}(e?s)?\\b`, "i").test(text);
+
+const KIND_WORDS: Record<ImageKind, RegExp> = {
+  photo: /\b(photos?|pictures?|pics?|look\s+like|real|actual)\b/i,
+  symbol: /\bsymbols?\b/i,
+  diagram: /\b(diagrams?|circuits?|figures?|construction|working)\b/i,
+  chart: /\b(charts?|code|colou?r)\b/i,
+  table: /\b(tables?|all|list)\b/i,
+};
+
+// Catalogue entries whose tags the question names, best first: longer tags (e.g. "slip ring
+// induction motor" over "motor") weigh more, and a requested kind ("symbol") breaks ties.
+export function matchImagesByTags(question: string, catalog: ImageEntry[]): ImageEntry[] {
+  const scored = catalog.map((e) => {
+    const hits = e.tags.filter((t) => mentions(question, t));
+    const score = hits.reduce((s, t) => s + t.split(/\s+/).length, 0);
+    const kindBonus = e.kind && KIND_WORDS[e.kind].test(question) ? 0.5 : 0;
+    return { e, score: score ? score + kindBonus : 0 };
+  });
+  const best = Math.max(0, ...scored.map((s) => s.score));
+  // Only the best-matching group, so "ammeter symbol" does not also return every meter photo
+  return scored.filter((s) => s.score > 0 && s.score === best).map((s) => s.e);
+}
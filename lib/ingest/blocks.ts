@@ -0,0 +1,134 @@
+import { classifyHeading } from "../sections";
+
+// Flat sequence of headings and text blocks extracted from a document, the input to
+// section-aware chunking. `level` is 1-6 for headings (smaller = more important).
+// `page` (PDF) and `anchor` (HTML/Markdown/DOCX headings) let answers cite an exact location.
+type Position = { page?: number; anchor?: string };
+export type Block = ({ kind: "heading"; level: number; text: string } | { kind: "text"; text: string }) & Position;
+
+// GitHub-style heading slug, used as the anchor when a heading has no id
+export const anchorSlug = (s: string) =>
+  s
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .replace(/\s+/g, "-");
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+export const decodeEntities = (s: string) =>
+  s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e.toLowerCase()] ?? m;
+  });
+
+const stripTags = (html: string) =>
+  decodeEntities(html.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")).replace(/[ \t]+/g, " ").trim();
+
+// mammoth (and most HTML) output: headings, paragraphs, list items and tables.
+// Table rows become "cell | cell" lines so observation tables survive as text.
+export function htmlToBlocks(html: string): Block[] {
+  const blocks: Block[] = [];
+  const body = html
+    .replace(/<(script|style|head|nav|header|footer|aside|form|button|noscript|svg|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "");
+  const re = /<(h[1-6]|p|li|tr|pre|blockquote|dt|dd|caption)\b([^>]*)>([\s\S]*?)<\/\1>/gi;
+  for (const m of body.matchAll(re)) {
+    const tag = m[1].toLowerCase();
+    const inner = m[3];
+    if (tag[0] === "h") {
+      const text = stripTags(inner);
+      const id = m[2].match(/\bid\s*=\s*["']([^"']+)["']/i)?.[1];
+      if (text) blocks.push({ kind: "heading", level: Number(tag[1]), text, anchor: id || anchorSlug(text) });
+      continue;
+    }
+    if (tag === "tr") {
+      const cells = [...inner.matchAll(/<(td|th)\b[^>]*>([\s\S]*?)<\/\1>/gi)].map((c) => stripTags(c[2]));
+      if (cells.some(Boolean)) blocks.push({ kind: "text", text: cells.join(" | ") });
+      continue;
+    }
+    // Nested lists/tables inside a paragraph are picked up by their own matches
+    if (tag === "li" && /<(ul|ol)\b/i.test(inner)) continue;
+    const text = stripTags(inner);
+    if (!text) continue;
+    // A short paragraph that is entirely bold is a heading in most lab manuals
+    const boldOnly = /^\s*<(strong|b)>[\s\S]*<\/\1>\s*$/i.test(inner) && text.length <= 80;
+    if (boldOnly) blocks.push({ kind: "heading", level: 3, text: text.replace(/:$/, ""), anchor: anchorSlug(text) });
+    else blocks.push({ kind: "text", text: tag === "li" ? `• ${text}` : text });
+  }
+  return blocks;
+}
+
+// Plain-text manuals: headings are "Label:" lines, "1) Item" lines, or "Label: text" lead-ins
+export function textToBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || /^[_\-=*]{4,}$/.test(line)) continue;
+    const md = line.match(/^(#{1,6})\s+(.+)$/);
+    if (md) {
+      blocks.push({ kind: "heading", level: md[1].length, text: md[2].trim() });
+      continue;
+    }
+    const numbered = line.match(/^\d{1,2}[).]\s*([A-Za-z][^.:]{0,60}?):?$/);
+    if (numbered) {
+      blocks.push({ kind: "heading", level: 2, text: numbered[1].trim() });
+      continue;
+    }
+    if (/^[A-Za-z][^.:]{1,60}:$/.test(line)) {
+      blocks.push({ kind: "heading", level: 1, text: line.slice(0, -1).trim() });
+      continue;
+    }
+    // Only lead-ins naming a known section ("Aim of the Experiment: ..."), not "Photo: ..."
+    const leadIn = line.match(/^([A-Z][A-Za-z ]{2,40}):\s+(.+)$/);
+    if (leadIn && leadIn[1].split(" ").length <= 6 && classifyHeading(leadIn[1])) {
+      blocks.push({ kind: "heading", level: 1, text: leadIn[1].trim() }, { kind: "text", text: leadIn[2].trim() });
+      continue;
+    }
+    blocks.push({ kind: "text", text: line });
+  }
+  return blocks;
+}
+
+// Markdown: ATX (#) and setext headings; links and images reduced to their text
+export function markdownToBlocks(md: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = md.split(/\r?\n/);
+  let inFence = false;
+  let fence: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(```|~~~)/.test(line)) {
+      if (inFence && fence.length) blocks.push({ kind: "text", text: fence.join("\n") });
+      inFence = !inFence;
+      fence = [];
+      continue;
+    }
+    if (inFence) {
+      fence.push(line);
+      continue;
+    }
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/);
+    const setext = !atx && line.trim() && lines[i + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (atx || setext) {
+      const text = (atx ? atx[2] : line).trim();
+      const level = atx ? atx[1].length : setext[1][0] === "=" ? 1 : 2;
+      blocks.push({ kind: "heading", level, text, anchor: anchorSlug(text) });
+      if (setext) i++;
+      continue;
+    }
+    const text = line
+      .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_m, alt, src) => `Image: ${alt || src} (${src})`)
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/(\*\*|__|`)/g, "")
+      .replace(/^\s*[-*+]\s+/, "• ")
+      .trim();
+    // Table delimiter rows carry no content
+    if (!text || /^\|?\s*:?-{3,}/.test(text)) continue;
+    blocks.push({ kind: "text", text });
+  }
+  return blocks;
+}
@@ -0,0 +1,70 @@
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { classifyHeading, type SectionId } from "../sections";
+import { anchorSlug, type Block } from "./blocks";
+
+export type Chunk = { text: string; section: SectionId; heading: string; page?: number; anchor?: string };
+
+// Bump when chunk boundaries or metadata change, so ingestion re-chunks unchanged files
+export const CHUNKER_VERSION = "sections-2";
+
+type ChunkOptions = { chunkSize?: number; chunkOverlap?: number };
+
+type Segment = { section: SectionId; heading: string; lines: string[]; page?: number; anchor?: string };
+
+// Walk the blocks keeping track of the current section. A heading that names a section
+// opens it; an unrecognized heading at the same or a higher level closes it.
+// A page break also starts a new segment so every chunk has a single page.
+function toSegments(blocks: Block[]): Segment[] {
+  const segments: Segment[] = [];
+  let section: SectionId = "general";
+  let sectionLevel = 7;
+  let heading = "";
+  let anchor: string | undefined;
+  for (const b of blocks) {
+    if (b.kind === "heading") {
+      const id = classifyHeading(b.text);
+      if (id) {
+        section = id;
+        sectionLevel = b.level;
+      } else if (b.level <= sectionLevel) {
+        section = "general";
+        sectionLevel = 7;
+      }
+      heading = b.text;
+      anchor = b.anchor ?? anchorSlug(b.text);
+      segments.push({ section, heading, lines: [], page: b.page, anchor });
+      continue;
+    }
+    const current = segments[segments.length - 1];
+    if (!current || current.page !== b.page) segments.push({ section, heading, lines: [], page: b.page, anchor });
+    segments[segments.length - 1].lines.push(b.text);
+  }
+  return segments.filter((s) => s.lines.length);
+}
+
+// Split a document into chunks that never straddle two sections. Small neighbouring
+// segments of the same section are merged; long ones are split with overlap.
+export async function chunkBlocks(blocks: Block[], { chunkSize = 1000, chunkOverlap = 200 }: ChunkOptions = {}) {
+  const splitter = new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap });
+  const merged: Segment[] = [];
+  for (const seg of toSegments(blocks)) {
+    const prev = merged[merged.length - 1];
+    const size = (s: Segment) => s.heading.length + s.lines.join("\n").length;
+    if (prev && prev.section === seg.section && prev.page === seg.page && size(prev) + size(seg) + 2 <= chunkSize) {
+      prev.lines.push(seg.heading ? `${seg.heading}:` : "", ...seg.lines);
+      continue;
+    }
+    merged.push({ ...seg, lines: [...seg.lines] });
+  }
+
+  const chunks: Chunk[] = [];
+  for (const seg of merged) {
+    const body = seg.lines.filter(Boolean).join("\n");
+    for (const piece of await splitter.splitText(body)) {
+      // Keep the heading with every piece so each chunk is understandable on its own
+      const text = seg.heading && !piece.startsWith(seg.heading) ? `${seg.heading}:\n${piece}` : piece;
+      chunks.push({ text, section: seg.section, heading: seg.heading, page: seg.page, anchor: seg.anchor });
+    }
+  }
+  return chunks;
+}
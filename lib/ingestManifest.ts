@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Records what scripts/loadDB.ts stored for each source file, so re-runs only embed
+// what changed, delete chunks that disappeared, and resume after an interruption.
+export type ManifestEntry = {
+  kind: "text" | "image";
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  // Chunker version used for text sources (see lib/ingest/chunking.ts)
+  chunker?: string;
+  experimentId?: string;
+  title?: string;
+  // Hash of the image's images/manifest.yaml entry, when it has one
+  meta?: string;
+  // uids stored for the last completed ingestion of this file
+  chunks: string[];
+  // Progress of an ingestion that has not finished: uids already stored for content `hash`
+  pending?: { hash: string; done: string[] };
+};
+
+export type IngestManifest = {
+  version: 1;
+  store: string;
+  collection: string;
+  model: string;
+  updatedAt: string;
+  sources: Record<string, ManifestEntry>;
+};
+
+type ManifestKey = { store: string; collection: string; model: string };
+
+export const manifestPath = ({ store, collection }: Pick<ManifestKey, "store" | "collection">) =>
+  path.resolve(process.cwd(), process.env.INGEST_MANIFEST || `.data/manifests/${store}-${collection}.json`);
+
+// A manifest written for another store, collection or model describes nothing we can reuse
+export function loadManifest(key: ManifestKey): IngestManifest {
+  const fresh: IngestManifest = { version: 1, ...key, updatedAt: new Date(0).toISOString(), sources: {} };
+  try {
+    const data = JSON.parse(fs.readFileSync(manifestPath(key), "utf8")) as IngestManifest;
+    if (data?.version !== 1 || data.store !== key.store || data.collection !== key.collection || data.model !== key.model) {
+      return fresh;
+    }
+    return { ...data, sources: data.sources ?? {} };
+  } catch {
+    return fresh;
+  }
+}
+
+export function saveManifest(manifest: IngestManifest) {
+  const file = manifestPath(manifest);
+  manifest.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(manifest, null, 2) + "\n");
+  fs.renameSync(tmp, file);
+}
+
+// Identifies the ingested corpus: changes whenever any stored chunk is added or removed
+export function corpusVersion(manifest: IngestManifest): string {
+  const uids = Object.values(manifest.sources).flatMap((e) => e.chunks).sort();
+  return crypto.createHash("sha1").update(`${manifest.collection}|${manifest.model}|${uids.join(",")}`).digest("hex").slice(0, 16);
+}
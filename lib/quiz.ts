@@ -0,0 +1,288 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { retrieveContext } from "./chat/retrieval";
+import type { ChatDeps } from "./chat/types";
+import type { Citation } from "./citations";
+import { EXPERIMENT_ID_RE, loadExperiments } from "./experiments";
+import { SECTIONS, type SectionId } from "./sections";
+
+// Viva-voce practice. Questions are written by the model from the retrieved lab chunks of an
+// experiment (or one section of it); the answer key never leaves the server. A quiz is graded
+// once, and each result points back to the chunk its question came from.
+export type QuizQuestionKind = "mcq" | "short";
+
+export type QuizQuestion = {
+  id: string;
+  kind: QuizQuestionKind;
+  prompt: string;
+  // Multiple choice only; `correct` is the index of the right option
+  options?: string[];
+  correct?: number;
+  // Model answer shown after grading (the right option for multiple choice)
+  answer: string;
+  // Short answers count as correct when they mention at least half of these
+  keywords?: string[];
+  explanation: string;
+  // `n` of the source chunk in Quiz.sources
+  source: number;
+};
+
+export type QuizResult = {
+  questionId: string;
+  response: string | number | null;
+  correct: boolean;
+  answer: string;
+  explanation: string;
+  source?: Citation;
+};
+
+export type QuizAttempt = { results: QuizResult[]; score: number; total: number; submittedAt: string };
+
+export type Quiz = {
+  id: string;
+  // Client id of the student; only they can see or submit the quiz
+  owner?: string;
+  // Chat session the score counts towards
+  sessionId?: string;
+  experimentId?: string;
+  section?: SectionId;
+  title: string;
+  questions: QuizQuestion[];
+  sources: Citation[];
+  attempt?: QuizAttempt;
+  createdAt: string;
+};
+
+// What the student sees: no answer key until the quiz is submitted
+export type QuizView = Omit<Quiz, "owner" | "questions" | "sources"> & {
+  questions: Pick<QuizQuestion, "id" | "kind" | "prompt" | "options">[];
+};
+
+export type QuizSummary = Pick<Quiz, "id" | "title" | "experimentId" | "section" | "createdAt"> & {
+  questions: number;
+  score: number | null;
+};
+
+export type QuizOptions = { experimentId?: string; section?: SectionId; mcq: number; short: number };
+
+const MAX_QUESTIONS = 10;
+
+export const quizPath = () => path.resolve(process.cwd(), process.env.QUIZ_FILE || ".data/quizzes.json");
+
+export function loadQuizzes(): Quiz[] {
+  try {
+    const data = JSON.parse(fs.readFileSync(quizPath(), "utf8"));
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveQuizzes(list: Quiz[]) {
+  const file = quizPath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(list, null, 2) + "\n");
+  fs.renameSync(tmp, file);
+}
+
+// Validates a quiz request from the page: { experimentId?, section?, mcq?, short? }
+export function parseQuizOptions(raw: unknown): { options?: QuizOptions; error?: string } {
+  const body = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const experimentId = typeof body.experimentId === "string" ? body.experimentId.trim() : "";
+  if (experimentId && !EXPERIMENT_ID_RE.test(experimentId)) return { error: "Invalid 'experimentId'" };
+  const section = typeof body.section === "string" ? body.section.trim() : "";
+  if (section && !SECTIONS.some((s) => s.id === section)) {
+    return { error: `Invalid 'section': use one of ${SECTIONS.map((s) => s.id).join(", ")}` };
+  }
+  const count = (v: unknown, fallback: number) => {
+    const n = v === undefined ? fallback : Number(v);
+    return Number.isInteger(n) && n >= 0 ? Math.min(n, MAX_QUESTIONS) : NaN;
+  };
+  const mcq = count(body.mcq, 4);
+  const short = count(body.short, 2);
+  if (Number.isNaN(mcq) || Number.isNaN(short)) return { error: "Invalid 'mcq' or 'short': use a whole number" };
+  if (!mcq && !short) return { error: "Ask for at least one question" };
+  return { options: { experimentId: experimentId || undefined, section: (section as SectionId) || undefined, mcq, short } };
+}
+
+function quizPrompt(context: string, { mcq, short, section }: QuizOptions) {
+  return `You are preparing a viva-voce practice quiz for a student, using only the lab material below.
+Write ${mcq} multiple-choice and ${short} short-answer questions${section ? ` about the ${section} section` : ""}.
+Follow these rules strictly:
+1) Each question must be answerable from one numbered source below; give its number as "source".
+2) Multiple choice: exactly 4 options with one correct; "correct" is the 0-based index of the right option.
+3) Short answer: a one or two sentence model "answer" and 2 to 4 "keywords" that a correct answer must mention.
+4) "explanation": one or two sentences on why the answer is right, based on the source.
+5) Ask about concepts, apparatus, procedure and precautions a viva examiner would ask; not about page numbers or formatting.
+Reply with JSON only, in this shape:
+{"questions":[{"type":"mcq","question":"...","options":["...","...","...","..."],"correct":0,"explanation":"...","source":1},{"type":"short","question":"...","answer":"...","keywords":["..."],"explanation":"...","source":2}]}
+
+Lab material:
+${context}`;
+}
+
+// Options are shuffled so the right one is not always where the model tends to put it
+function shuffled<T>(items: T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Keeps the well-formed questions the model wrote, up to the numbers asked for
+function parseQuestions(raw: string, sources: Citation[], { mcq, short }: QuizOptions): QuizQuestion[] {
+  let data: { questions?: unknown };
+  try {
+    data = JSON.parse(raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1) || "{}");
+  } catch {
+    return [];
+  }
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const known = new Set(sources.map((c) => c.n));
+  const out: QuizQuestion[] = [];
+  const left = { mcq, short };
+  for (const item of Array.isArray(data?.questions) ? data.questions : []) {
+    const q = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const kind: QuizQuestionKind = q.type === "short" ? "short" : "mcq";
+    const prompt = str(q.question);
+    const source = Number(q.source);
+    if (!prompt || !known.has(source) || !left[kind]) continue;
+    const base = { id: `q${out.length + 1}`, kind, prompt, explanation: str(q.explanation), source };
+    if (kind === "mcq") {
+      const options = Array.isArray(q.options) ? q.options.map(str) : [];
+      const correct = Number(q.correct);
+      if (options.length < 2 || options.some((o) => !o) || !Number.isInteger(correct) || !options[correct]) continue;
+      const order = shuffled(options.map((_, i) => i));
+      out.push({ ...base, options: order.map((i) => options[i]), correct: order.indexOf(correct), answer: options[correct] });
+    } else {
+      const answer = str(q.answer);
+      if (!answer) continue;
+      const keywords = Array.isArray(q.keywords) ? q.keywords.map(str).filter(Boolean).slice(0, 6) : [];
+      out.push({ ...base, answer, keywords });
+    }
+    left[kind]--;
+  }
+  return out;
+}
+
+// Retrieves the lab chunks for the experiment/section and has the model write questions from them
+export async function generateQuiz(options: QuizOptions, deps: ChatDeps): Promise<{ quiz?: Omit<Quiz, "id" | "owner" | "sessionId" | "createdAt">; error?: string }> {
+  const experiment = options.experimentId ? loadExperiments().find((e) => e.id === options.experimentId) : undefined;
+  const topic = experiment?.title || options.experimentId || "";
+  // Section words steer retrieval to that section (see retrieveContext); otherwise the core of the manual
+  const spec = SECTIONS.find((s) => s.id === options.section);
+  const query = [topic, ...(spec ? spec.terms : ["objective", "theory", "procedure"])].filter(Boolean).join(" ");
+  const { context, citations } = await retrieveContext(query, options.experimentId, deps);
+  if (!context.trim()) return { error: "No lab material found to make a quiz from" };
+
+  const questions = parseQuestions(await deps.generate(quizPrompt(context, options), { temperature: 0.4 }), citations, options);
+  if (!questions.length) return { error: "Could not write quiz questions from the lab material; try again" };
+  const title = `${topic || "All experiments"}${options.section ? ` · ${options.section}` : ""}`;
+  return {
+    quiz: {
+      experimentId: options.experimentId,
+      section: options.section,
+      title,
+      questions,
+      // Only the chunks questions were written from are kept
+      sources: citations.filter((c) => questions.some((q) => q.source === c.n)),
+    },
+  };
+}
+
+export function saveQuiz(init: Omit<Quiz, "id" | "createdAt">): Quiz {
+  const list = loadQuizzes();
+  const quiz: Quiz = { id: crypto.randomBytes(8).toString("hex"), ...init, createdAt: new Date().toISOString() };
+  list.push(quiz);
+  saveQuizzes(list);
+  return quiz;
+}
+
+// null when the quiz does not exist or belongs to someone else
+export function getQuiz(id: string, owner?: string): Quiz | null {
+  const quiz = loadQuizzes().find((q) => q.id === id);
+  return quiz && quiz.owner === owner ? quiz : null;
+}
+
+export const forStudent = (quiz: Quiz): QuizView => ({
+  id: quiz.id,
+  sessionId: quiz.sessionId,
+  experimentId: quiz.experimentId,
+  section: quiz.section,
+  title: quiz.title,
+  questions: quiz.questions.map(({ id, kind, prompt, options }) => ({ id, kind, prompt, options })),
+  attempt: quiz.attempt,
+  createdAt: quiz.createdAt,
+});
+
+const words = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, " ")
+    .split(" ")
+    .filter(Boolean);
+
+// A keyword is mentioned when each of its words starts a word of the response ("resistor" matches "resistors")
+function shortAnswerCorrect(response: string, q: QuizQuestion) {
+  const said = words(response);
+  const keywords = q.keywords?.length ? q.keywords : words(q.answer).filter((w) => w.length > 3);
+  const hits = keywords.filter((k) => words(k).every((w) => said.some((s) => s.startsWith(w))));
+  return keywords.length > 0 && hits.length >= Math.ceil(keywords.length / 2);
+}
+
+export function gradeQuiz(quiz: Quiz, responses: Record<string, unknown>): QuizAttempt {
+  const results = quiz.questions.map((q): QuizResult => {
+    const raw = responses[q.id];
+    let response: string | number | null = null;
+    let correct = false;
+    if (q.kind === "mcq") {
+      const n = typeof raw === "number" || (typeof raw === "string" && raw.trim()) ? Number(raw) : NaN;
+      response = Number.isInteger(n) ? n : null;
+      correct = response === q.correct;
+    } else {
+      response = typeof raw === "string" && raw.trim() ? raw.trim().slice(0, 2000) : null;
+      correct = response != null && shortAnswerCorrect(response, q);
+    }
+    return {
+      questionId: q.id,
+      response,
+      correct,
+      answer: q.answer,
+      explanation: q.explanation,
+      source: quiz.sources.find((c) => c.n === q.source),
+    };
+  });
+  const score = results.filter((r) => r.correct).length;
+  return { results, score, total: results.length, submittedAt: new Date().toISOString() };
+}
+
+// Grades the first submission; later ones get the same result back (the key is known by then)
+export function submitQuiz(id: string, owner: string | undefined, responses: Record<string, unknown>): Quiz | null {
+  const list = loadQuizzes();
+  const quiz = list.find((q) => q.id === id);
+  if (!quiz || quiz.owner !== owner) return null;
+  if (!quiz.attempt) {
+    quiz.attempt = gradeQuiz(quiz, responses);
+    saveQuizzes(list);
+  }
+  return quiz;
+}
+
+// Oldest first, so the page can show progress through the session
+export function sessionQuizzes(owner: string, sessionId: string): QuizSummary[] {
+  return loadQuizzes()
+    .filter((q) => q.owner === owner && q.sessionId === sessionId)
+    .map((q) => ({
+      id: q.id,
+      title: q.title,
+      experimentId: q.experimentId,
+      section: q.section,
+      createdAt: q.createdAt,
+      questions: q.questions.length,
+      score: q.attempt ? q.attempt.score : null,
+    }));
+}
@@ -0,0 +1,242 @@
+import { formatQuantity as fq, parseQuantities, trimNumber, valuesOf, type Unit } from "../calculators/units";
+import type { Plot } from "./plot";
+import type { ReadingsTable } from "./table";
+
+// Deterministic analysis of an observation table: the numbers here are computed, never generated.
+// Columns are recognised from their headers ("V (volts)", "I (mA)", "Speed (rpm)", "Pout (W)").
+type QuantityKind = "voltage" | "current" | "resistance" | "power" | "speed" | "torque" | "load";
+
+type Column = {
+  header: string;
+  kind: QuantityKind | null;
+  role: "theoretical" | "measured" | null;
+  // Input or output side of a power column
+  side?: "in" | "out";
+  // As written (for tables and plots) and in SI units (for formulas)
+  raw: Array<number | null>;
+  si: Array<number | null>;
+};
+
+export type AnalysisSection = { title: string; lines: string[] };
+
+export type ReadingsAnalysis = {
+  sections: AnalysisSection[];
+  // The readings with the computed columns appended
+  table: ReadingsTable;
+  plots: Plot[];
+};
+
+const SI_PREFIX: Record<string, number> = { "": 1, m: 1e-3, "µ": 1e-6, "μ": 1e-6, u: 1e-6, k: 1e3, K: 1e3, M: 1e6 };
+
+// Unit written in brackets after the name: "Current (mA)", "Speed [rpm]"
+const UNITS: Array<[RegExp, QuantityKind]> = [
+  [/^([mµμuk]?)(v|volts?)$/i, "voltage"],
+  [/^([mµμuk]?)(a|amps?|amperes?)$/i, "current"],
+  [/^([mkKM]?)(Ω|ohms?)$/, "resistance"],
+  [/^([mkKM]?)(w|watts?)$/i, "power"],
+  [/^(rpm|r\.p\.m\.?)$/i, "speed"],
+  [/^(n\s*[·.\-*]?\s*m|nm|kgf?\s*[·.\-*]?\s*m)$/i, "torque"],
+  [/^(kg|kgf|g|n|newtons?)$/i, "load"],
+];
+
+// Names and symbols when no unit says what the column is; checked in this order
+const WORDS: Array<[RegExp, QuantityKind]> = [
+  [/\b(voltage|volts?|emf|p\.?d\.?)\b|^(v|e)(_?\w{0,3})?$/i, "voltage"],
+  [/\b(current|amps?)\b|^i(_?\w{0,3})?$/i, "current"],
+  [/\b(resistance|ohms?)\b|^r(_?\w{0,3})?$/i, "resistance"],
+  [/\b(power|wattage)\b|^p(_?\w{0,3})?$/i, "power"],
+  [/\b(speed|rpm)\b|^n(_?\w{0,2})?$/i, "speed"],
+  [/\btorque\b|^(t|τ)(_?\w{0,2})?$/i, "torque"],
+  [/\b(load|weight|spring\s+balance)\b/i, "load"],
+];
+
+// Serial numbers are not readings
+const SERIAL_RE = /^(s\.?\s*no|sl\.?\s*no|sr\.?\s*no|no|obs(ervation)?\.?\s*no|reading\s*no|#)\.?$/i;
+const THEORETICAL_RE = /\b(theoretical|theory|expected|calculated|nominal|standard|true|rated)\b/i;
+const MEASURED_RE = /\b(measured|observed|experimental|actual|obtained|practical)\b/i;
+const INPUT_RE = /\b(input|in|primary)\b|^p_?(in|i|1)\b/i;
+const OUTPUT_RE = /\b(output|out|secondary|load)\b|^p_?(out|o|2)\b/i;
+
+const number = (cell: string) => {
+  const n = parseFloat(cell.replace(/,/g, "."));
+  return /\d/.test(cell) && Number.isFinite(n) ? n : null;
+};
+
+function readColumn(header: string, cells: string[]): Column {
+  const unitMatch = header.match(/[([]\s*([^)\]]+?)\s*[)\]]/) ?? header.match(/\bin\s+([A-Za-zΩµμ.·]+)\s*$/);
+  const unit = unitMatch?.[1].trim() ?? "";
+  const name = header.replace(/[([][^)\]]*[)\]]/g, "").replace(/\bin\s+[A-Za-zΩµμ.·]+\s*$/, "").trim();
+  let kind: QuantityKind | null = null;
+  let scale = 1;
+  for (const [re, k] of UNITS) {
+    const m = unit.match(re);
+    if (!m) continue;
+    kind = k;
+    scale = ["voltage", "current", "resistance", "power"].includes(k) ? SI_PREFIX[m[1]] ?? 1 : 1;
+    break;
+  }
+  if (!kind) kind = WORDS.find(([re]) => re.test(name))?.[1] ?? null;
+  const role = THEORETICAL_RE.test(header) ? "theoretical" : MEASURED_RE.test(header) ? "measured" : null;
+  const side = kind === "power" ? (INPUT_RE.test(name) ? "in" : OUTPUT_RE.test(name) ? "out" : undefined) : undefined;
+  const raw = cells.map(number);
+  return { header, kind, role, side, raw, si: raw.map((v) => (v == null ? null : v * scale)) };
+}
+
+export type LinearFit = { slope: number; intercept: number; r2: number; n: number };
+
+export function linearFit(points: Array<[number, number]>): LinearFit | null {
+  const n = points.length;
+  if (n < 2) return null;
+  let sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (const [x, y] of points) {
+    sx += x;
+    sy += y;
+    sxx += x * x;
+    sxy += x * y;
+  }
+  const d = n * sxx - sx * sx;
+  if (Math.abs(d) < 1e-300) return null;
+  const slope = (n * sxy - sx * sy) / d;
+  const intercept = (sy - slope * sx) / n;
+  const mean = sy / n;
+  let ssRes = 0, ssTot = 0;
+  for (const [x, y] of points) {
+    ssRes += (y - (slope * x + intercept)) ** 2;
+    ssTot += (y - mean) ** 2;
+  }
+  return { slope, intercept, r2: ssTot ? 1 - ssRes / ssTot : 1, n };
+}
+
+const pairs = (xs: Array<number | null>, ys: Array<number | null>) =>
+  xs.flatMap((x, i) => (x != null && ys[i] != null ? [[x, ys[i]!] as [number, number]] : []));
+
+const pct = (x: number) => `${trimNumber(x)} %`;
+const cell = (v: number | null, unit: Unit | "" = "") => (v == null || !Number.isFinite(v) ? "–" : fq(v, unit));
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+const percentError = (measured: number, expected: number) => ((measured - expected) / expected) * 100;
+
+export function analyzeReadings(table: ReadingsTable, question = ""): ReadingsAnalysis | null {
+  const columns = table.headers.map((h, i) => readColumn(h, table.rows.map((r) => r[i] ?? "")));
+  const numeric = columns.filter((c) => !SERIAL_RE.test(c.header.trim()) && c.raw.filter((v) => v != null).length >= 2);
+  const find = (kind: QuantityKind, pred: (c: Column) => boolean = () => true) =>
+    numeric.find((c) => c.kind === kind && c.role !== "theoretical" && pred(c));
+  const sections: AnalysisSection[] = [];
+  const plots: Plot[] = [];
+  const extra: Array<{ header: string; cells: string[] }> = [];
+
+  const V = find("voltage");
+  const I = find("current");
+  const speed = find("speed");
+  const torque = find("torque");
+  const load = find("load");
+  const pIn = find("power", (c) => c.side === "in");
+  const pOut = find("power", (c) => c.side === "out");
+  const machine = Boolean(speed || torque || pOut);
+
+  // Ohm's law: R from each reading and from the slope of V against I
+  if (V && I && !machine) {
+    const perRow = V.si.map((v, i) => (v != null && I.si[i] ? v / I.si[i]! : null));
+    extra.push({ header: "R = V/I", cells: perRow.map((r) => cell(r, "Ω")) });
+    const lines: string[] = [];
+    const fit = linearFit(pairs(I.si, V.si));
+    const ratios = perRow.filter((r): r is number => r != null && Number.isFinite(r));
+    if (fit) {
+      lines.push(`Least-squares fit V = R × I + c: R = ${fq(fit.slope, "Ω")}, c = ${fq(fit.intercept, "V")}, R² = ${fit.r2.toFixed(4)}`);
+    }
+    if (ratios.length) lines.push(`Mean of V/I over ${ratios.length} readings: ${fq(mean(ratios), "Ω")}`);
+    // Expected resistance: a theoretical column, or a value given in the question ("R = 100 Ω")
+    const rTheory = numeric.find((c) => c.kind === "resistance" && c.role === "theoretical");
+    const rKnown = rTheory ? mean(rTheory.si.filter((v): v is number => v != null)) : valuesOf(parseQuantities(question), "Ω")[0]?.value;
+    const rMeasured = fit?.slope ?? (ratios.length ? mean(ratios) : null);
+    if (rKnown && rMeasured != null) {
+      lines.push(`Percentage error against the expected R = ${fq(rKnown, "Ω")}: (${fq(rMeasured, "Ω")} − ${fq(rKnown, "Ω")}) / ${fq(rKnown, "Ω")} × 100 = ${pct(percentError(rMeasured, rKnown))}`);
+    }
+    if (lines.length) sections.push({ title: "Ohm's law (R = V / I)", lines });
+    const rawFit = linearFit(pairs(I.raw, V.raw));
+    plots.push({ title: "V–I characteristic", xLabel: I.header, yLabel: V.header, points: pairs(I.raw, V.raw), fit: rawFit ?? undefined });
+  }
+
+  // Efficiency: input from a power column or V × I, output from a power column or 2πNT/60
+  const inputPower = pIn?.si ?? (V && I && machine ? V.si.map((v, i) => (v != null && I.si[i] != null ? v * I.si[i]! : null)) : null);
+  const outputPower = pOut?.si ?? (speed && torque ? speed.si.map((n, i) => (n != null && torque.si[i] != null ? (2 * Math.PI * n * torque.si[i]!) / 60 : null)) : null);
+  if (inputPower && outputPower) {
+    const eta = inputPower.map((p, i) => (p && outputPower[i] != null ? (outputPower[i]! / p) * 100 : null));
+    if (!pIn) extra.push({ header: "Input P = V × I", cells: inputPower.map((p) => cell(p, "W")) });
+    if (!pOut) extra.push({ header: "Output P = 2πNT/60", cells: outputPower.map((p) => cell(p, "W")) });
+    extra.push({ header: "η (%)", cells: eta.map((e) => (e == null ? "–" : trimNumber(e))) });
+    const valid = eta.flatMap((e, i) => (e != null && Number.isFinite(e) ? [{ e, i }] : []));
+    if (valid.length) {
+      const best = valid.reduce((a, b) => (b.e > a.e ? b : a));
+      sections.push({
+        title: "Efficiency (η = output / input × 100)",
+        lines: [
+          `Input power: ${pIn ? pIn.header : "V × I"}; output power: ${pOut ? pOut.header : "2π × N × T / 60 (N in rpm, T in N·m)"}`,
+          `Maximum efficiency ${pct(best.e)} at output ${cell(outputPower[best.i], "W")} (reading ${best.i + 1})`,
+          `Mean efficiency over ${valid.length} readings: ${pct(mean(valid.map((v) => v.e)))}`,
+        ],
+      });
+      const x = load ?? pOut;
+      plots.push({
+        title: "Efficiency",
+        xLabel: x ? x.header : "Output power (W)",
+        yLabel: "η (%)",
+        points: pairs(x ? x.raw : outputPower, eta),
+      });
+    }
+  }
+
+  // Speed against load: slope of the fit and the speed regulation from no load to full load
+  const xLoad = load ?? torque ?? pOut ?? (machine ? I : undefined);
+  if (speed && xLoad) {
+    const pts = pairs(xLoad.raw, speed.raw).sort((a, b) => a[0] - b[0]);
+    const fit = linearFit(pts);
+    if (fit && pts.length >= 2) {
+      const [nNoLoad, nFull] = [pts[0][1], pts[pts.length - 1][1]];
+      const lines = [`Least-squares fit N = a × load + b: a = ${trimNumber(fit.slope)} rpm per unit of ${xLoad.header}, b = ${trimNumber(fit.intercept)} rpm, R² = ${fit.r2.toFixed(4)}`];
+      if (nFull) lines.push(`Speed regulation = (N at lightest load − N at heaviest load) / N at heaviest load × 100 = (${trimNumber(nNoLoad)} − ${trimNumber(nFull)}) / ${trimNumber(nFull)} × 100 = ${pct(percentError(nNoLoad, nFull))}`);
+      sections.push({ title: `Speed vs ${xLoad.header}`, lines });
+      plots.push({ title: "Speed characteristic", xLabel: xLoad.header, yLabel: speed.header, points: pts, fit: { slope: fit.slope, intercept: fit.intercept } });
+    }
+  }
+
+  // Percentage error between a theoretical column and the matching measured one
+  const theoretical = numeric.filter((c) => c.role === "theoretical");
+  for (const expected of theoretical) {
+    const measured = numeric.find((c) => c !== expected && c.role !== "theoretical" && c.kind === expected.kind);
+    if (!measured) continue;
+    const errors = measured.si.map((m, i) => (m != null && expected.si[i] ? percentError(m, expected.si[i]!) : null));
+    extra.push({ header: theoretical.length > 1 ? `% error (${measured.header})` : "% error", cells: errors.map((e) => (e == null ? "–" : trimNumber(e))) });
+    const valid = errors.filter((e): e is number => e != null);
+    if (!valid.length) continue;
+    sections.push({
+      title: `Percentage error of ${measured.header}`,
+      lines: [
+        `% error = (measured − theoretical) / theoretical × 100, with ${expected.header} as theoretical`,
+        `Mean absolute error ${pct(mean(valid.map(Math.abs)))}; largest ${pct(valid.reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a)))}`,
+      ],
+    });
+  }
+
+  // Anything else: a straight-line fit of the second numeric column against the first
+  if (!sections.length && numeric.length >= 2) {
+    const [x, y] = numeric;
+    const fit = linearFit(pairs(x.raw, y.raw));
+    if (fit) {
+      sections.push({
+        title: `${y.header} vs ${x.header}`,
+        lines: [`Least-squares fit: slope ${trimNumber(fit.slope)}, intercept ${trimNumber(fit.intercept)}, R² = ${fit.r2.toFixed(4)} over ${fit.n} readings`],
+      });
+      plots.push({ title: `${y.header} vs ${x.header}`, xLabel: x.header, yLabel: y.header, points: pairs(x.raw, y.raw), fit });
+    }
+  }
+
+  if (!sections.length) return null;
+  return {
+    sections,
+    table: {
+      headers: [...table.headers, ...extra.map((e) => e.header)],
+      rows: table.rows.map((r, i) => [...r, ...extra.map((e) => e.cells[i])]),
+    },
+    plots: plots.filter((p) => p.points.length >= 2),
+  };
+}
@@ -0,0 +1,22 @@
+import type { ReadingsAnalysis } from "./analyze";
+import { tableToMarkdown } from "./table";
+
+export type * from "./analyze";
+export type * from "./plot";
+export type * from "./table";
+export { analyzeReadings, linearFit } from "./analyze";
+export { plotDataUrl, plotLayout, plotSvg } from "./plot";
+export { findPastedTable, parseTable, parseTableUpload, tableToMarkdown } from "./table";
+
+// Results table and worked lines, as shown under the narrative
+export function renderAnalysis(a: ReadingsAnalysis): string {
+  return [
+    "### Results",
+    "",
+    tableToMarkdown(a.table),
+    "",
+    ...a.sections.flatMap((s) => [`**${s.title}**`, "", ...s.lines.map((l) => `- ${l}`), ""]),
+  ]
+    .join("\n")
+    .trim();
+}
@@ -0,0 +1,99 @@
+// Plots sent with an analysis are data, not pictures: the page draws them as SVG and the PDF
+// export draws the same layout with pdf-lib. Coordinates are SVG-style (y grows downwards).
+export type Plot = {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  points: Array<[number, number]>;
+  // Least-squares line drawn over the points
+  fit?: { slope: number; intercept: number };
+};
+
+export type PlotLayout = {
+  width: number;
+  height: number;
+  frame: { left: number; top: number; right: number; bottom: number };
+  xTicks: Array<{ pos: number; label: string }>;
+  yTicks: Array<{ pos: number; label: string }>;
+  points: Array<[number, number]>;
+  fitLine?: [[number, number], [number, number]];
+};
+
+const tickLabel = (v: number) => String(Number(v.toPrecision(4)));
+
+// Round steps (1, 2, 5 × 10^n) covering [min, max]
+function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    const pad = Math.abs(min) * 0.1 || 1;
+    min -= pad;
+    max += pad;
+  }
+  const raw = (max - min) / (count - 1);
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = ([1, 2, 2.5, 5, 10].find((m) => m * mag >= raw) ?? 10) * mag;
+  const out: number[] = [];
+  for (let v = Math.floor(min / step) * step; v <= max + step * 1e-9; v += step) out.push(Number(v.toPrecision(12)));
+  if (out[out.length - 1] < max) out.push(out[out.length - 1] + step);
+  return out;
+}
+
+export function plotLayout(plot: Plot, width = 480, height = 300): PlotLayout {
+  const frame = { left: 56, top: 28, right: width - 16, bottom: height - 44 };
+  const xs = plot.points.map((p) => p[0]);
+  const ys = plot.points.map((p) => p[1]);
+  // Lab plots usually start at zero (V–I through the origin); keep zero in view when it is close
+  const withZero = (vals: number[]) => (Math.min(...vals) >= 0 && Math.min(...vals) <= Math.max(...vals) * 0.5 ? [0, ...vals] : vals);
+  const xt = niceTicks(Math.min(...withZero(xs)), Math.max(...xs));
+  const yt = niceTicks(Math.min(...withZero(ys)), Math.max(...ys));
+  const [x0, x1, y0, y1] = [xt[0], xt[xt.length - 1], yt[0], yt[yt.length - 1]];
+  const sx = (x: number) => frame.left + ((x - x0) / (x1 - x0)) * (frame.right - frame.left);
+  const sy = (y: number) => frame.bottom - ((y - y0) / (y1 - y0)) * (frame.bottom - frame.top);
+  const layout: PlotLayout = {
+    width,
+    height,
+    frame,
+    xTicks: xt.map((v) => ({ pos: sx(v), label: tickLabel(v) })),
+    yTicks: yt.map((v) => ({ pos: sy(v), label: tickLabel(v) })),
+    points: plot.points.map(([x, y]) => [sx(x), sy(y)]),
+  };
+  if (plot.fit) {
+    const { slope, intercept } = plot.fit;
+    const [a, b] = [Math.min(...xs), Math.max(...xs)];
+    layout.fitLine = [[sx(a), sy(slope * a + intercept)], [sx(b), sy(slope * b + intercept)]];
+  }
+  return layout;
+}
+
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function plotSvg(plot: Plot): string {
+  const l = plotLayout(plot);
+  const { left, top, right, bottom } = l.frame;
+  const f = (n: number) => n.toFixed(1);
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${l.width} ${l.height}" width="${l.width}" height="${l.height}" font-family="Helvetica, Arial, sans-serif" font-size="11">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<text x="${l.width / 2}" y="16" text-anchor="middle" font-size="13" font-weight="bold" fill="#02263C">${esc(plot.title)}</text>`,
+    ...l.xTicks.map(
+      (t) =>
+        `<line x1="${f(t.pos)}" y1="${top}" x2="${f(t.pos)}" y2="${bottom}" stroke="#e5e7eb"/><text x="${f(t.pos)}" y="${bottom + 14}" text-anchor="middle" fill="#4b5563">${t.label}</text>`
+    ),
+    ...l.yTicks.map(
+      (t) =>
+        `<line x1="${left}" y1="${f(t.pos)}" x2="${right}" y2="${f(t.pos)}" stroke="#e5e7eb"/><text x="${left - 6}" y="${f(t.pos + 4)}" text-anchor="end" fill="#4b5563">${t.label}</text>`
+    ),
+    `<rect x="${left}" y="${top}" width="${right - left}" height="${bottom - top}" fill="none" stroke="#6b7280"/>`,
+    l.fitLine
+      ? `<line x1="${f(l.fitLine[0][0])}" y1="${f(l.fitLine[0][1])}" x2="${f(l.fitLine[1][0])}" y2="${f(l.fitLine[1][1])}" stroke="#0e7490" stroke-width="1.5"/>`
+      : "",
+    ...l.points.map(([x, y]) => `<circle cx="${f(x)}" cy="${f(y)}" r="3.5" fill="#02263C"/>`),
+    `<text x="${(left + right) / 2}" y="${l.height - 8}" text-anchor="middle" fill="#111827">${esc(plot.xLabel)}</text>`,
+    `<text transform="translate(14 ${(top + bottom) / 2}) rotate(-90)" text-anchor="middle" fill="#111827">${esc(plot.yLabel)}</text>`,
+    `</svg>`,
+  ];
+  return parts.filter(Boolean).join("");
+}
+
+// For <img src> on the page and in Markdown exports (parentheses escaped so ![](...) stays intact)
+export const plotDataUrl = (plot: Plot) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(plotSvg(plot)).replace(/\(/g, "%28").replace(/\)/g, "%29")}`;
@@ -0,0 +1,126 @@
+// Observation tables students send with "analyze my results": a CSV or Markdown table attached
+// to the question (multipart `table` file or JSON `table` string) or pasted into it.
+export type ReadingsTable = { headers: string[]; rows: string[][] };
+
+export const MAX_TABLE_BYTES = 256 * 1024;
+const MAX_ROWS = 200;
+
+const MD_SEPARATOR_RE = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+const isNumeric = (cell: string) => /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i.test(cell.trim());
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const out: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (ch === '"') {
+      quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      out.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  out.push(cell.trim());
+  return out;
+}
+
+const splitMarkdownLine = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((c) => c.trim());
+
+// Tab, semicolon (decimal-comma locales) or comma, whichever the header line uses most
+function csvDelimiter(line: string) {
+  const counts = ["\t", ";", ","].map((d) => [d, line.split(d).length - 1] as const);
+  const [delimiter, n] = counts.sort((a, b) => b[1] - a[1])[0];
+  return n > 0 ? delimiter : null;
+}
+
+// Header row plus at least two readings, or null when the text is not a table
+export function parseTable(text: string): ReadingsTable | null {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l && !MD_SEPARATOR_RE.test(l));
+  if (lines.length < 2) return null;
+  let cells: string[][];
+  if (lines[0].includes("|")) {
+    cells = lines.filter((l) => l.includes("|")).map(splitMarkdownLine);
+  } else {
+    const delimiter = csvDelimiter(lines[0]);
+    if (!delimiter) return null;
+    cells = lines.map((l) => splitCsvLine(l, delimiter));
+  }
+  const width = cells[0].length;
+  if (width < 2) return null;
+  // Without a header row the columns are numbered
+  const headed = !cells[0].every(isNumeric);
+  const headers = headed ? cells[0].map((h, i) => h || `Column ${i + 1}`) : cells[0].map((_, i) => `Column ${i + 1}`);
+  const rows = (headed ? cells.slice(1) : cells)
+    .filter((r) => r.some((c) => c))
+    .slice(0, MAX_ROWS)
+    .map((r) => headers.map((_, i) => r[i] ?? ""));
+  if (rows.length < 2 || !rows.some((r) => r.filter(isNumeric).length >= 2)) return null;
+  return { headers, rows };
+}
+
+// A table pasted into the question; the rest of the text is the question
+export function findPastedTable(question: string): { question: string; table: ReadingsTable } | null {
+  const lines = question.split(/\r?\n/);
+  const tabular = (l: string) => l.includes("|") || (csvDelimiter(l) !== null && l.split(csvDelimiter(l)!).length >= 2);
+  let start = -1;
+  let end = -1;
+  for (let i = 0; i < lines.length; i++) {
+    if (!tabular(lines[i])) continue;
+    let j = i;
+    while (j + 1 < lines.length && tabular(lines[j + 1])) j++;
+    if (j - i + 1 > end - start) {
+      start = i;
+      end = j + 1;
+    }
+    i = j;
+  }
+  if (start < 0 || end - start < 3) return null;
+  const table = parseTable(lines.slice(start, end).join("\n"));
+  if (!table) return null;
+  const rest = [...lines.slice(0, start), ...lines.slice(end)].join("\n").trim();
+  return { question: rest || "Analyze my readings", table };
+}
+
+export async function parseTableUpload(raw: unknown): Promise<{ table?: ReadingsTable; error?: string }> {
+  if (raw == null || raw === "") return {};
+  let text: string;
+  if (typeof Blob !== "undefined" && raw instanceof Blob) {
+    if (raw.size > MAX_TABLE_BYTES) return { error: `Table is larger than ${MAX_TABLE_BYTES / 1024} KB` };
+    text = await raw.text();
+  } else if (typeof raw === "string") {
+    text = raw;
+  } else {
+    return { error: "Invalid 'table': send a CSV or Markdown file, or the table as text" };
+  }
+  if (text.length > MAX_TABLE_BYTES) return { error: `Table is larger than ${MAX_TABLE_BYTES / 1024} KB` };
+  const table = parseTable(text);
+  if (!table) return { error: "Could not read 'table': use CSV or a Markdown table with a header row and at least two readings" };
+  return { table };
+}
+
+const escapeCell = (c: string) => c.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+export function tableToMarkdown({ headers, rows }: ReadingsTable): string {
+  return [
+    `| ${headers.map(escapeCell).join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((r) => `| ${r.map(escapeCell).join(" | ")} |`),
+  ].join("\n");
+}
@@ -0,0 +1,147 @@
+import JSZip from "jszip";
+import type { Plot, ReadingsTable } from "../readings";
+import { sourceLine } from "../sessions/export";
+import { originLabel, reportNotes } from "./markdown";
+import type { LabReport, ReportBlock, ReportContent } from "./types";
+
+// A minimal WordprocessingML package: styles, one document part and core properties. Word
+// needs a raster fallback for SVG pictures, so graphs are described for the student to draw.
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const DOC_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+// A4 with 2 cm margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const MARGIN = 1134;
+
+const ORIGIN_COLORS: Record<ReportBlock["origin"], string> = { manual: "0E7490", student: "B45309", conversation: "6D28D9" };
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Characters XML 1.0 does not allow are dropped rather than breaking the document
+const esc = (s: string) =>
+  s
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+type RunStyle = { bold?: boolean; italic?: boolean; color?: string; size?: number };
+
+const run = (text: string, style: RunStyle = {}) => {
+  const props = [
+    style.bold ? "<w:b/>" : "",
+    style.italic ? "<w:i/>" : "",
+    style.color ? `<w:color w:val="${style.color}"/>` : "",
+    style.size ? `<w:sz w:val="${style.size * 2}"/>` : "",
+  ].join("");
+  // Line breaks inside a paragraph become <w:br/>
+  const body = text
+    .split("\n")
+    .map((line) => `<w:t xml:space="preserve">${esc(line)}</w:t>`)
+    .join("<w:br/>");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}${body}</w:r>`;
+};
+
+const para = (runs: string, opts: { style?: string; indent?: number; keepNext?: boolean } = {}) => {
+  const props = [
+    opts.style ? `<w:pStyle w:val="${opts.style}"/>` : "",
+    opts.keepNext ? "<w:keepNext/>" : "",
+    opts.indent ? `<w:ind w:left="${opts.indent}" w:hanging="360"/>` : "",
+  ].join("");
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${runs}</w:p>`;
+};
+
+function table({ headers, rows }: ReadingsTable) {
+  const width = Math.floor((PAGE_WIDTH - 2 * MARGIN) / headers.length);
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="9CA3AF"/>`;
+  const cell = (text: string, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : ""}</w:tcPr>${para(
+      run(text, { bold: header })
+    )}</w:tc>`;
+  const row = (cells: string[], header = false) =>
+    `<w:tr>${header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${cells.map((c) => cell(c, header)).join("")}</w:tr>`;
+  return [
+    "<w:tbl>",
+    `<w:tblPr><w:tblW w:w="${width * headers.length}" w:type="dxa"/><w:tblBorders>${["top", "left", "bottom", "right", "insideH", "insideV"].map(border).join("")}</w:tblBorders></w:tblPr>`,
+    `<w:tblGrid>${headers.map(() => `<w:gridCol w:w="${width}"/>`).join("")}</w:tblGrid>`,
+    row(headers, true),
+    ...rows.map((r) => row(r)),
+    "</w:tbl>",
+  ].join("");
+}
+
+const plotNote = (p: Plot) =>
+  `Graph (${p.title}): plot ${p.yLabel} against ${p.xLabel} from the table above (${p.points.length} points)${
+    p.fit ? `; the best-fit line has slope ${Number(p.fit.slope.toPrecision(4))} and intercept ${Number(p.fit.intercept.toPrecision(4))}` : ""
+  }.`;
+
+function content(c: ReportContent): string {
+  switch (c.kind) {
+    case "text":
+      return c.text
+        .split(/\n{2,}/)
+        .map((t) => para(run(t)))
+        .join("");
+    case "list":
+      return c.items.map((item, i) => para(run(`${c.ordered ? `${i + 1}.` : "•"} ${item}`), { indent: 360 })).join("");
+    case "table":
+      // An empty paragraph after the table keeps the next table or caption from touching it
+      return table(c.table) + (c.caption ? para(run(c.caption), { style: "Caption" }) : para(""));
+    case "plot":
+      return para(run(plotNote(c.plot), { italic: true }));
+  }
+}
+
+function documentXml(report: LabReport) {
+  const body: string[] = [para(run(report.title), { style: "Title" })];
+  const meta = [report.experimentId ? `Experiment: ${report.experimentId}` : "", `Generated: ${report.createdAt.replace("T", " ").slice(0, 16)} UTC`];
+  body.push(para(run(meta.filter(Boolean).join("    "), { color: "6B7280", size: 9 })));
+  for (const note of reportNotes(report)) body.push(para(run(note, { italic: true, color: "4B5563", size: 9.5 })));
+  for (const s of report.sections) {
+    body.push(para(run(s.title), { style: "Heading1" }));
+    if (s.missing) body.push(para(run(s.missing, { italic: true, color: "9CA3AF" })));
+    for (const b of s.blocks) {
+      body.push(para(run(originLabel(b), { italic: true, color: ORIGIN_COLORS[b.origin], size: 9 }), { keepNext: true }));
+      body.push(...b.content.map(content));
+    }
+  }
+  if (report.sources.length) {
+    body.push(para(run("Sources"), { style: "Heading1" }));
+    for (const c of report.sources) body.push(para(run(sourceLine(c), { size: 9.5 })));
+  }
+  const section = `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr>`;
+  return `${XML_HEAD}<w:document xmlns:w="${W_NS}"><w:body>${body.join("")}${section}</w:body></w:document>`;
+}
+
+const STYLES = `${XML_HEAD}<w:styles xmlns:w="${W_NS}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-IN"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="80"/></w:pPr><w:rPr><w:b/><w:color w:val="02263C"/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="320" w:after="80"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:color w:val="02263C"/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="60"/></w:pPr><w:rPr><w:i/><w:color w:val="4B5563"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>
+</w:styles>`;
+
+const CONTENT_TYPES = `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const PACKAGE_RELS = `${XML_HEAD}<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${DOC_TYPE}/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCUMENT_RELS = `${XML_HEAD}<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${DOC_TYPE}/styles" Target="styles.xml"/></Relationships>`;
+
+const coreXml = (report: LabReport) =>
+  `${XML_HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${esc(
+    report.title
+  )}</dc:title><dcterms:created xsi:type="dcterms:W3CDTF">${report.createdAt.replace(/\.\d+Z$/, "Z")}</dcterms:created></cp:coreProperties>`;
+
+export async function reportToDocx(report: LabReport): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", CONTENT_TYPES);
+  zip.file("_rels/.rels", PACKAGE_RELS);
+  zip.file("word/_rels/document.xml.rels", DOCUMENT_RELS);
+  zip.file("word/document.xml", documentXml(report));
+  zip.file("word/styles.xml", STYLES);
+  zip.file("docProps/core.xml", coreXml(report));
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
@@ -0,0 +1,203 @@
+import { retrieveContext } from "../chat/retrieval";
+import type { ChatDeps } from "../chat/types";
+import { citationLabel, type Citation } from "../citations";
+import { loadExperiments } from "../experiments";
+import { analyzeReadings, type ReadingsAnalysis, type ReadingsTable } from "../readings";
+import { SECTIONS, type SectionId } from "../sections";
+import type { ChatSession } from "../sessions";
+import type { LabReport, ReportBlock, ReportContent, ReportSection, ReportSectionId } from "./types";
+
+// Record sections in the order a lab record lists them, and the manual section each is drawn from
+const RECORD: Array<{ id: ReportSectionId; title: string; manual?: SectionId }> = [
+  { id: "aim", title: "Aim", manual: "objective" },
+  { id: "apparatus", title: "Apparatus", manual: "apparatus" },
+  { id: "theory", title: "Theory", manual: "theory" },
+  { id: "procedure", title: "Procedure", manual: "procedure" },
+  { id: "observations", title: "Observations" },
+  { id: "result", title: "Result" },
+  { id: "precautions", title: "Precautions", manual: "precautions" },
+];
+
+const CHUNKS_PER_SECTION = 3;
+const FALLBACK_CHARS = 800;
+const CHAT_TURNS = 12;
+const CHAT_CHARS = 600;
+
+type ManualChunk = { citation: Citation; text: string; section: ReportSectionId };
+type Readings = { table: ReadingsTable; analysis: ReadingsAnalysis | null; sentAt: string };
+
+// One retrieval per manual section, chunks tagged with that section first; the numbering is
+// shared so the model and the report cite the same [n]
+async function manualChunks(topic: string, experimentId: string | undefined, deps: ChatDeps): Promise<ManualChunk[]> {
+  const out: ManualChunk[] = [];
+  for (const rec of RECORD) {
+    const spec = SECTIONS.find((s) => s.id === rec.manual);
+    if (!spec) continue;
+    const { context, citations } = await retrieveContext([topic, ...spec.terms].filter(Boolean).join(" "), experimentId, deps);
+    // retrieveContext numbers chunks in context order, each one "label\ntext"
+    const texts = context ? context.split("\n\n---\n\n").map((part) => part.slice(part.indexOf("\n") + 1)) : [];
+    const ranked = citations
+      .map((c, i) => ({ c, text: texts[i] ?? c.snippet }))
+      .sort((a, b) => Number(b.c.section === spec.id) - Number(a.c.section === spec.id));
+    for (const { c, text } of ranked.slice(0, CHUNKS_PER_SECTION)) {
+      if (out.some((x) => x.citation.id === c.id)) continue;
+      out.push({ citation: { ...c, n: out.length + 1 }, text, section: rec.id });
+    }
+  }
+  return out;
+}
+
+const transcript = (session: ChatSession) =>
+  session.messages
+    .slice(-CHAT_TURNS * 2)
+    .map((m) => {
+      const text = m.content.replace(/!\[[^\]]*\]\([^)]*\)/g, "").replace(/\s+/g, " ").trim();
+      return `${m.role === "user" ? "Student" : "Assistant"}: ${text.length > CHAT_CHARS ? `${text.slice(0, CHAT_CHARS)}...` : text}`;
+    })
+    .join("\n");
+
+const computed = (readings: Readings[]) =>
+  readings
+    .flatMap((r) => r.analysis?.sections ?? [])
+    .map((s) => `${s.title}:\n${s.lines.map((l) => `- ${l}`).join("\n")}`)
+    .join("\n");
+
+function reportPrompt(topic: string, chunks: ManualChunk[], readings: Readings[], session: ChatSession) {
+  const context = chunks.map((c) => `${citationLabel(c.citation)}\n${c.text}`).join("\n\n---\n\n");
+  return `You are helping a student draft the lab record for the experiment "${topic || session.title}".
+Follow these rules strictly:
+1) Write "aim", "apparatus", "theory", "procedure" and "precautions" only from the numbered lab manual extracts; list the numbers of the extracts each one uses in "sources". Leave a part empty when the extracts do not cover it.
+2) Under "fromChat", add short points the student and the assistant worked out in the conversation that the extracts do not already say; leave it empty when there are none. Do not repeat the manual there.
+3) "result": one or two sentences on what the student's readings show, using only the computed values given; empty when there are none.
+4) Plain sentences without Markdown or citation markers. "aim" and "theory" are paragraphs (theory at most 150 words); "apparatus", "procedure" and "precautions" are lists of short items.
+Reply with JSON only, in this shape:
+{"aim":{"text":"...","sources":[1],"fromChat":[]},"apparatus":{"items":["..."],"sources":[2],"fromChat":[]},"theory":{"text":"...","sources":[3],"fromChat":["..."]},"procedure":{"items":["..."],"sources":[4],"fromChat":[]},"precautions":{"items":["..."],"sources":[5],"fromChat":[]},"result":{"text":"...","fromChat":[]}}
+
+Lab manual extracts:
+${context || "(none found)"}
+
+Computed from the student's readings:
+${computed(readings) || "(no readings sent)"}
+
+Conversation:
+${transcript(session) || "(empty)"}`;
+}
+
+type DraftPart = { text: string; items: string[]; sources: number[]; fromChat: string[] };
+
+function parseDraft(raw: string, chunks: ManualChunk[]): Partial<Record<ReportSectionId, DraftPart>> | null {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1) || "null");
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") return null;
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const strs = (v: unknown) => (Array.isArray(v) ? v.map(str).filter(Boolean) : []);
+  const out: Partial<Record<ReportSectionId, DraftPart>> = {};
+  for (const rec of RECORD) {
+    const part = data[rec.id];
+    if (!part || typeof part !== "object") continue;
+    const p = part as Record<string, unknown>;
+    out[rec.id] = {
+      text: str(p.text),
+      items: strs(p.items),
+      // Only extracts that were actually sent
+      sources: Array.isArray(p.sources) ? p.sources.map(Number).filter((n) => n >= 1 && n <= chunks.length) : [],
+      fromChat: strs(p.fromChat),
+    };
+  }
+  return out;
+}
+
+const partContent = (part: DraftPart, ordered: boolean): ReportContent[] => [
+  ...(part.text ? [{ kind: "text" as const, text: part.text }] : []),
+  ...(part.items.length ? [{ kind: "list" as const, items: part.items, ordered }] : []),
+];
+
+// Without a draft the manual text goes in as retrieved, cut to a readable length
+const chunkBlock = (c: ManualChunk): ReportBlock => {
+  const text = c.text.trim().replace(/\n{3,}/g, "\n\n");
+  return {
+    origin: "manual",
+    content: [{ kind: "text", text: text.length > FALLBACK_CHARS ? `${text.slice(0, FALLBACK_CHARS)} ...` : text }],
+    sources: [c.citation.n],
+  };
+};
+
+const stamp = (iso: string) => iso.replace("T", " ").slice(0, 16);
+
+// Assembles the record: manual sections drafted by the model from retrieved chunks (or the chunks
+// themselves when it fails), observations and results from the readings sent in the session
+export async function generateReport(session: ChatSession, deps: ChatDeps): Promise<LabReport> {
+  const experiment = session.experimentId ? loadExperiments().find((e) => e.id === session.experimentId) : undefined;
+  const topic = experiment?.title || session.experimentId || "";
+  const chunks = await manualChunks(topic, session.experimentId, deps);
+  const readings: Readings[] = session.messages
+    .filter((m) => m.role === "user" && m.table)
+    .map((m) => ({ table: m.table!, analysis: analyzeReadings(m.table!, m.content), sentAt: m.createdAt }));
+
+  let draft: Partial<Record<ReportSectionId, DraftPart>> | null = null;
+  if (chunks.length || readings.length) {
+    try {
+      draft = parseDraft(await deps.generate(reportPrompt(topic, chunks, readings, session), { temperature: 0.2 }), chunks);
+    } catch {
+      draft = null;
+    }
+  }
+
+  const sections = RECORD.map((rec): ReportSection => {
+    const part = draft?.[rec.id];
+    const blocks: ReportBlock[] = [];
+    if (rec.manual) {
+      const content = part ? partContent(part, rec.id === "procedure") : [];
+      if (content.length) blocks.push({ origin: "manual", content, sources: part!.sources });
+      else if (!draft) blocks.push(...chunks.filter((c) => c.section === rec.id).map(chunkBlock));
+    }
+    if (rec.id === "observations") {
+      for (const r of readings) {
+        const table = r.analysis?.table ?? r.table;
+        blocks.push({
+          origin: "student",
+          content: [
+            { kind: "table", table, caption: `Readings sent on ${stamp(r.sentAt)} UTC${r.analysis ? "; computed columns added" : ""}` },
+            ...(r.analysis?.plots ?? []).map((plot) => ({ kind: "plot" as const, plot })),
+          ],
+        });
+      }
+    }
+    if (rec.id === "result") {
+      const content: ReportContent[] = part?.text ? [{ kind: "text", text: part.text }] : [];
+      for (const s of readings.flatMap((r) => r.analysis?.sections ?? [])) {
+        content.push({ kind: "text", text: s.title }, { kind: "list", items: s.lines });
+      }
+      if (content.length) blocks.push({ origin: "student", content });
+    }
+    if (part?.fromChat.length) blocks.push({ origin: "conversation", content: [{ kind: "list", items: part.fromChat }] });
+    return {
+      id: rec.id,
+      title: rec.title,
+      blocks,
+      missing: blocks.length
+        ? undefined
+        : rec.manual
+        ? "Not found in the lab manual; write this section from your notes."
+        : rec.id === "observations"
+        ? "No readings were sent in this chat; add your observation table."
+        : "Write the result from your readings.",
+    };
+  });
+
+  // Only the extracts the report points to are listed
+  const used = new Set(sections.flatMap((s) => s.blocks.flatMap((b) => b.sources ?? [])));
+  return {
+    title: `Lab report: ${topic || session.title}`,
+    experimentId: session.experimentId,
+    sessionId: session.id,
+    sections,
+    sources: chunks.map((c) => c.citation).filter((c) => used.has(c.n)),
+    drafted: !!draft || !chunks.length,
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,4 @@
+export type * from "./types";
+export { reportToDocx } from "./docx";
+export { generateReport } from "./generate";
+export { reportToMarkdown } from "./markdown";
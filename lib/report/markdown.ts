@@ -0,0 +1,53 @@
+import { plotDataUrl, tableToMarkdown } from "../readings";
+import { sourceLine } from "../sessions/export";
+import type { LabReport, ReportBlock, ReportContent } from "./types";
+
+// Shown above every block in both formats
+export const ORIGIN_LABELS: Record<ReportBlock["origin"], string> = {
+  manual: "From the lab manual",
+  student: "From your readings",
+  conversation: "From your chat with the assistant",
+};
+
+// Printed under the title
+export const reportNotes = (report: LabReport) => [
+  "Draft generated from the lab manual, your readings and this chat. Each part says where it came from; check it against your own work before you submit it.",
+  ...(report.drafted ? [] : ["The manual sections could not be drafted, so they hold the manual text as retrieved."]),
+];
+
+export const originLabel = (b: ReportBlock) =>
+  `${ORIGIN_LABELS[b.origin]}${b.sources?.length ? ` ${b.sources.map((n) => `[${n}]`).join("")}` : ""}`;
+
+const contentMarkdown = (c: ReportContent): string => {
+  switch (c.kind) {
+    case "text":
+      return c.text;
+    case "list":
+      return c.items.map((item, i) => `${c.ordered ? `${i + 1}.` : "-"} ${item}`).join("\n");
+    case "table":
+      return [tableToMarkdown(c.table), c.caption ? `\n\n*${c.caption}*` : ""].join("");
+    case "plot":
+      return `![${c.plot.title}](${plotDataUrl(c.plot)})`;
+  }
+};
+
+export function reportToMarkdown(report: LabReport): string {
+  const out = [`# ${report.title}`, ""];
+  if (report.experimentId) out.push(`Experiment: ${report.experimentId}  `);
+  out.push(`Generated: ${report.createdAt.replace("T", " ").slice(0, 16)} UTC`, "");
+  for (const note of reportNotes(report)) out.push(`> ${note}`, "");
+  for (const s of report.sections) {
+    out.push(`## ${s.title}`, "");
+    if (s.missing) out.push(`*${s.missing}*`, "");
+    for (const b of s.blocks) {
+      out.push(`*${originLabel(b)}*`, "");
+      for (const c of b.content) out.push(contentMarkdown(c), "");
+    }
+  }
+  if (report.sources.length) {
+    out.push("## Sources", "");
+    for (const c of report.sources) out.push(`- ${sourceLine(c)}`);
+    out.push("");
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,33 @@
+import type { Citation } from "../citations";
+import type { Plot, ReadingsTable } from "../readings";
+
+// Lab record draft assembled from a chat session. Every block says where it came from, so the
+// student can tell text taken from the manual from their own readings and the conversation.
+export type ReportOrigin = "manual" | "student" | "conversation";
+
+export type ReportSectionId = "aim" | "apparatus" | "theory" | "procedure" | "observations" | "result" | "precautions";
+
+export type ReportContent =
+  | { kind: "text"; text: string }
+  | { kind: "list"; items: string[]; ordered?: boolean }
+  | { kind: "table"; table: ReadingsTable; caption?: string }
+  | { kind: "plot"; plot: Plot };
+
+// `sources` are the `n` of the manual chunks (LabReport.sources) the block is based on
+export type ReportBlock = { origin: ReportOrigin; content: ReportContent[]; sources?: number[] };
+
+// An empty section is left for the student to write (`missing` says what to put there)
+export type ReportSection = { id: ReportSectionId; title: string; blocks: ReportBlock[]; missing?: string };
+
+export type LabReport = {
+  title: string;
+  experimentId?: string;
+  sessionId: string;
+  sections: ReportSection[];
+  sources: Citation[];
+  // False when the model could not write the manual sections and chunk text was used as is
+  drafted: boolean;
+  createdAt: string;
+};
+
+export type ReportFormat = "docx" | "md";
@@ -0,0 +1,66 @@
+import fs from "fs";
+import path from "path";
+import { createMemoryCache } from "./memory";
+import type { CachedResponse, ResponseCacheBackend } from "./types";
+
+// The memory LRU, saved to one JSON file after every change so answers survive a restart.
+// Each process keeps its own order; the file is re-read when another process rewrote it.
+export function createFileCache(
+  maxEntries: number,
+  file = process.env.RESPONSE_CACHE_FILE || ".data/response-cache.json"
+): ResponseCacheBackend {
+  const target = path.resolve(process.cwd(), file);
+  const lru = createMemoryCache(maxEntries);
+  let loadedMtime = -1;
+
+  const sync = () => {
+    let mtime = 0;
+    try {
+      mtime = fs.statSync(target).mtimeMs;
+    } catch {}
+    if (mtime === loadedMtime) return;
+    let entries: CachedResponse[] = [];
+    try {
+      const data = JSON.parse(fs.readFileSync(target, "utf8"));
+      if (Array.isArray(data?.entries)) entries = data.entries;
+    } catch {}
+    lru.load(entries);
+    loadedMtime = mtime;
+  };
+
+  const save = async () => {
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    const tmp = `${target}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, entries: await lru.entries() }) + "\n");
+    fs.renameSync(tmp, target);
+    loadedMtime = fs.statSync(target).mtimeMs;
+  };
+
+  return {
+    kind: "file",
+    async get(key) {
+      sync();
+      // Recency is not written back; a read does not justify rewriting the file
+      return lru.get(key);
+    },
+    async set(entry) {
+      sync();
+      const evicted = await lru.set(entry);
+      await save();
+      return evicted;
+    },
+    async delete(keys) {
+      sync();
+      await lru.delete(keys);
+      await save();
+    },
+    async entries() {
+      sync();
+      return lru.entries();
+    },
+    async clear() {
+      await lru.clear();
+      await save();
+    },
+  };
+}
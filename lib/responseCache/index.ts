@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import fs from "fs";
+import { cosineSimilarity, type EmbeddingModel } from "../embeddings";
+import { numberEnv } from "../env";
+import { faqPath } from "../faq";
+import { looksLikeFollowUp } from "../history";
+import { corpusVersion, loadManifest, manifestPath } from "../ingestManifest";
+import { vectorStoreKind } from "../vectorStore";
+import type { ChatInput, ChatPayload, RetrievalTrace } from "../chat/types";
+import { createFileCache } from "./file";
+import { createMemoryCache } from "./memory";
+import type { CachedResponse, ResponseCacheBackend } from "./types";
+
+export type * from "./types";
+
+// Answers cached in front of the chat pipeline. Keys combine the normalized question, the
+// experiment and the corpus version, so re-seeding or editing verified answers makes every
+// older entry unreachable; those are swept out on the next lookup.
+export type CacheMetrics = {
+  backend: string;
+  entries: number;
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  // Requests the cache could not serve at all (photos, follow-up questions)
+  bypassed: number;
+  stores: number;
+  evictions: number;
+  expired: number;
+  invalidated: number;
+};
+
+export type CacheLookup = {
+  hit: { entry: CachedResponse; match: "exact" | "semantic"; similarity: number } | null;
+  // Stores the answer produced after a miss
+  save: (payload: ChatPayload, trace: RetrievalTrace) => Promise<void>;
+};
+
+// RESPONSE_CACHE=memory|file|off (default memory)
+export function responseCacheKind(): "memory" | "file" | "off" {
+  const kind = (process.env.RESPONSE_CACHE || "memory").trim().toLowerCase();
+  if (kind === "memory" || kind === "file" || kind === "off") return kind;
+  throw new Error(`Unknown RESPONSE_CACHE '${kind}'. Use 'memory', 'file' or 'off'.`);
+}
+
+// RESPONSE_CACHE_TTL in seconds (default one day, 0 keeps entries until the corpus changes);
+// RESPONSE_CACHE_SEMANTIC is the cosine similarity for near-duplicate hits (default 0 = exact only)
+const settings = () => ({
+  maxEntries: numberEnv("RESPONSE_CACHE_MAX", 500, { min: 1, integer: true }),
+  ttlMs: numberEnv("RESPONSE_CACHE_TTL", 86400) * 1000,
+  semantic: numberEnv("RESPONSE_CACHE_SEMANTIC", 0, { max: 1 }),
+});
+
+// "  What is a Rheostat ?? " and "what is a rheostat" share an entry
+export const normalizeQuestion = (question: string) =>
+  question
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, " ")
+    .replace(/^[\s"'¿¡]+|[\s?!."']+$/g, "")
+    .replace(/\s+([?!.,;:])/g, "$1");
+
+// Photos and readings differ every time, and follow-ups ("what about its ratings?") depend on the
+// conversation; standalone questions are answered the same whatever came before them
+export const isCacheable = (input: ChatInput) =>
+  !input.image && !input.table && !looksLikeFollowUp(input.question, input.history ?? []);
+
+// Ingested documents (ingest manifest) plus the verified answers file
+let corpusMemo: { stamp: string; key: string } | null = null;
+export function corpusStamp(embedder: EmbeddingModel): string {
+  const key = { store: vectorStoreKind(), collection: embedder.collectionName, model: embedder.model };
+  const mtime = (file: string) => {
+    try {
+      return fs.statSync(file).mtimeMs;
+    } catch {
+      return 0;
+    }
+  };
+  const memoKey = `${key.store}|${key.collection}|${key.model}|${mtime(manifestPath(key))}|${mtime(faqPath())}`;
+  if (corpusMemo?.key !== memoKey) {
+    const manifest = loadManifest(key);
+    // Without a manifest (seeded elsewhere) only the TTL expires entries
+    const docs = Object.keys(manifest.sources).length ? corpusVersion(manifest) : `unseeded-${key.model}`;
+    corpusMemo = { key: memoKey, stamp: `${docs}:${Math.round(mtime(faqPath()))}` };
+  }
+  return corpusMemo.stamp;
+}
+
+const cacheKey = (corpus: string, experimentId: string | undefined, question: string) =>
+  crypto.createHash("sha1").update(`${corpus}|${experimentId ?? ""}|${normalizeQuestion(question)}`).digest("hex");
+
+const emptyCounters = () => ({
+  hits: 0,
+  semanticHits: 0,
+  misses: 0,
+  bypassed: 0,
+  stores: 0,
+  evictions: 0,
+  expired: 0,
+  invalidated: 0,
+});
+
+let state: { kind: string; backend: ResponseCacheBackend; counters: ReturnType<typeof emptyCounters>; corpus: string } | null = null;
+
+function backend() {
+  const kind = responseCacheKind();
+  if (kind === "off") return null;
+  if (state?.kind !== kind) {
+    const { maxEntries } = settings();
+    state = {
+      kind,
+      backend: kind === "file" ? createFileCache(maxEntries) : createMemoryCache(maxEntries),
+      counters: emptyCounters(),
+      corpus: "",
+    };
+  }
+  return state;
+}
+
+// null when caching is off or the request cannot be cached
+export async function lookupResponse(input: ChatInput, embedder: EmbeddingModel): Promise<CacheLookup | null> {
+  const s = backend();
+  if (!s) return null;
+  if (!isCacheable(input)) {
+    s.counters.bypassed++;
+    return null;
+  }
+  const { ttlMs, semantic } = settings();
+  const corpus = corpusStamp(embedder);
+  const now = Date.now();
+  const fresh = (e: CachedResponse) => !ttlMs || now - e.createdAt < ttlMs;
+
+  // First lookup after re-seeding: drop everything built from the old corpus
+  if (s.corpus !== corpus) {
+    const stale = (await s.backend.entries()).filter((e) => e.corpus !== corpus).map((e) => e.key);
+    if (stale.length) await s.backend.delete(stale);
+    s.counters.invalidated += stale.length;
+    s.corpus = corpus;
+  }
+
+  const key = cacheKey(corpus, input.experimentId, input.question);
+  let hit: CacheLookup["hit"] = null;
+  const exact = await s.backend.get(key);
+  if (exact && fresh(exact)) {
+    hit = { entry: exact, match: "exact", similarity: 1 };
+  } else if (exact) {
+    await s.backend.delete([key]);
+    s.counters.expired++;
+  }
+
+  // Near duplicates cost one embedding call, still far cheaper than a full answer
+  let vector: number[] | undefined;
+  if (!hit && semantic > 0) {
+    vector = await embedder.embed(normalizeQuestion(input.question));
+    for (const e of await s.backend.entries()) {
+      if (!e.vector || e.corpus !== corpus || e.experimentId !== input.experimentId || !fresh(e)) continue;
+      const similarity = cosineSimilarity(vector, e.vector);
+      if (similarity >= semantic && similarity > (hit?.similarity ?? 0)) hit = { entry: e, match: "semantic", similarity };
+    }
+  }
+
+  if (hit?.match === "exact") s.counters.hits++;
+  else if (hit) s.counters.semanticHits++;
+  else s.counters.misses++;
+
+  return {
+    hit,
+    save: async (payload, trace) => {
+      const entry: CachedResponse = {
+        key,
+        question: input.question,
+        experimentId: input.experimentId,
+        corpus,
+        payload,
+        trace,
+        vector,
+        createdAt: Date.now(),
+      };
+      s.counters.evictions += await s.backend.set(entry);
+      s.counters.stores++;
+    },
+  };
+}
+
+// Counters are per process and start again when the backend changes
+export async function responseCacheMetrics(): Promise<CacheMetrics | null> {
+  const s = backend();
+  if (!s) return null;
+  return { backend: s.kind, entries: (await s.backend.entries()).length, ...s.counters };
+}
+
+export async function clearResponseCache() {
+  await backend()?.backend.clear();
+}
@@ -0,0 +1,45 @@
+import type { CachedResponse, ResponseCacheBackend } from "./types";
+
+// LRU over a Map: reads move an entry to the end, eviction takes from the front
+export function createMemoryCache(maxEntries: number): ResponseCacheBackend & { load(entries: CachedResponse[]): void } {
+  const map = new Map<string, CachedResponse>();
+  const evict = () => {
+    let evicted = 0;
+    for (const key of map.keys()) {
+      if (map.size <= maxEntries) break;
+      map.delete(key);
+      evicted++;
+    }
+    return evicted;
+  };
+  return {
+    kind: "memory",
+    async get(key) {
+      const entry = map.get(key);
+      if (!entry) return null;
+      map.delete(key);
+      map.set(key, entry);
+      return entry;
+    },
+    async set(entry) {
+      map.delete(entry.key);
+      map.set(entry.key, entry);
+      return evict();
+    },
+    async delete(keys) {
+      for (const k of keys) map.delete(k);
+    },
+    async entries() {
+      return [...map.values()];
+    },
+    async clear() {
+      map.clear();
+    },
+    // Restores entries saved by the file backend, oldest first
+    load(entries) {
+      map.clear();
+      for (const e of entries) map.set(e.key, e);
+      evict();
+    },
+  };
+}
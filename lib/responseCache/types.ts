@@ -0,0 +1,27 @@
+import type { ChatPayload, RetrievalTrace } from "../chat/types";
+
+// A finished answer kept for identical (or, optionally, near-identical) questions.
+// `corpus` identifies the ingested documents and verified answers it was built from.
+export type CachedResponse = {
+  key: string;
+  question: string;
+  experimentId?: string;
+  corpus: string;
+  payload: ChatPayload;
+  trace: RetrievalTrace;
+  // Embedding of the question, kept for near-duplicate matching
+  vector?: number[];
+  createdAt: number;
+};
+
+// Storage only; keys, expiry and invalidation are handled in ./index.ts
+export interface ResponseCacheBackend {
+  readonly kind: "memory" | "file";
+  get(key: string): Promise<CachedResponse | null>;
+  // Inserting beyond capacity evicts the least recently used entries; resolves to how many
+  set(entry: CachedResponse): Promise<number>;
+  delete(keys: string[]): Promise<void>;
+  // Least recently used first
+  entries(): Promise<CachedResponse[]>;
+  clear(): Promise<void>;
+}
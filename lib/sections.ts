@@ -0,0 +1,88 @@
+// Canonical sections of an experiment manual. Ingestion tags every chunk with one of these
+// (from the headings it sits under); retrieval boosts the section a question is about.
+export type SectionId =
+  | "objective"
+  | "apparatus"
+  | "theory"
+  | "procedure"
+  | "precautions"
+  | "observations"
+  | "result"
+  | "references"
+  | "general";
+
+type SectionSpec = {
+  id: Exclude<SectionId, "general">;
+  // Matches a heading that opens this section
+  heading: RegExp;
+  // Matches a question asking about this section
+  question: RegExp;
+  // Extra query terms used to augment retrieval for such questions
+  terms: string[];
+};
+
+export const SECTIONS: SectionSpec[] = [
+  {
+    id: "objective",
+    heading: /\b(aim|objectives?|purpose|experiment\s+name)\b/i,
+    question: /\b(objectives?|aim|purpose|goal)\b/i,
+    terms: ["objective", "aim"],
+  },
+  {
+    id: "apparatus",
+    heading: /\b(apparatus|equipments?|components?\s+required|materials?\s+required)\b/i,
+    question: /\b(apparatus|equipments?|components?\s+(required|needed|used)|setup)\b/i,
+    terms: ["apparatus", "equipment", "setup"],
+  },
+  {
+    id: "precautions",
+    heading: /\b(precautions?|safety)\b/i,
+    question: /\b(precautions?|safety|care)\b/i,
+    terms: ["precaution", "safety"],
+  },
+  {
+    id: "procedure",
+    heading: /\b(procedure|steps|method|how\s+to\s+perform)\b/i,
+    question: /\b(procedure|steps?|how\s+(do|to|can)\s+i\s+(perform|do|conduct))\b/i,
+    terms: ["procedure", "steps"],
+  },
+  {
+    id: "observations",
+    heading: /\b(observations?|readings?|observation\s+table)\b/i,
+    question: /\b(observations?|readings?|observation\s+table)\b/i,
+    terms: ["observation", "readings", "table"],
+  },
+  {
+    id: "result",
+    heading: /\b(results?|conclusions?|analysis|calculations?|inference)\b/i,
+    question: /\b(analy[sz]e|analysis|calculations?|results?|conclusions?)\b/i,
+    terms: ["analysis", "calculate", "results"],
+  },
+  {
+    id: "theory",
+    heading: /\b(theory|principle|introduction|overview|background|definitions?)\b/i,
+    question: /\b(theory|definitions?|define|principle|explain)\b/i,
+    terms: ["theory", "definition", "principle"],
+  },
+  {
+    id: "references",
+    heading: /\b(references?|bibliography|further\s+reading)\b/i,
+    question: /\b(references?|books?|bibliography|further\s+reading)\b/i,
+    terms: ["references"],
+  },
+];
+
+export function classifyHeading(heading: string): SectionId | null {
+  const h = heading.trim();
+  if (!h) return null;
+  return SECTIONS.find((s) => s.heading.test(h))?.id ?? null;
+}
+
+export function detectQuestionSection(question: string): SectionId | null {
+  return SECTIONS.find((s) => s.question.test(question))?.id ?? null;
+}
+
+// Terms appended to the retrieval query for every section the question mentions
+export function sectionQueryTerms(question: string): string[] {
+  return SECTIONS.filter((s) => s.question.test(question)).flatMap((s) => s.terms);
+}
@@ -0,0 +1,281 @@
+import fs from "fs";
+import path from "path";
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFImage, type PDFPage } from "pdf-lib";
+import type { Citation } from "../citations";
+import { plotDataUrl, plotLayout, type Plot } from "../readings";
+import type { ChatSession, SessionUpload, StoredMessage } from "./types";
+
+// Conversation exports for lab record submission. Answers are stored as Markdown with inline
+// images (![alt](/images/x.png "title")); both formats keep the images and the numbered sources.
+export type ImageLoader = (url: string) => Promise<SessionUpload | null>;
+
+const IMAGE_MD_RE = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g;
+
+// Lab images from public/; anything else (uploads) is left to the caller
+export async function loadPublicImage(url: string): Promise<SessionUpload | null> {
+  if (!url.startsWith("/images/")) return null;
+  const root = path.resolve(process.cwd(), "public");
+  let file: string;
+  try {
+    file = path.resolve(root, decodeURIComponent(url.split(/[?#]/)[0]).slice(1));
+  } catch {
+    return null;
+  }
+  if (!file.startsWith(root + path.sep)) return null;
+  const ext = path.extname(file).toLowerCase();
+  const mime = ext === ".png" ? "image/png" : ext === ".jpg" || ext === ".jpeg" ? "image/jpeg" : null;
+  if (!mime) return null;
+  try {
+    return { data: fs.readFileSync(file), mime };
+  } catch {
+    return null;
+  }
+}
+
+export const sourceLine = (c: Citation) => {
+  const where = [c.section, c.heading, c.page != null ? `p. ${c.page}` : ""].filter(Boolean).join(", ");
+  return `[${c.n}] ${c.document}${where ? ` (${where})` : ""}${c.url && c.kind === "web" ? ` ${c.url}` : ""}`;
+};
+
+// Same choices as the page: cited text sources (all of them when none is cited), and the
+// image sources the answer does not already show inline
+const listedSources = (m: StoredMessage) => {
+  const refs = (m.sources ?? []).filter((c) => c.kind !== "image");
+  return refs.some((c) => c.cited) ? refs.filter((c) => c.cited) : refs;
+};
+
+const galleryImages = (m: StoredMessage) => {
+  const inline = new Set([...m.content.matchAll(IMAGE_MD_RE)].map((x) => x[2]));
+  return (m.sources ?? []).filter((c) => c.kind === "image" && c.url && !inline.has(c.url)).slice(0, 6);
+};
+
+const stamp = (iso: string) => iso.replace("T", " ").slice(0, 16);
+
+const verifiedNote = (m: StoredMessage) =>
+  m.verified ? `Verified by instructor${m.verified.verifiedBy ? ` (${m.verified.verifiedBy})` : ""}` : "";
+
+// `origin` makes lab image links absolute so the file works outside the app. Uploaded photos
+// are only reachable with the owner's client id, so they are embedded as data URLs instead.
+export async function sessionToMarkdown(session: ChatSession, opts: { origin: string; loadImage: ImageLoader }) {
+  const absolute = (url: string) => (url.startsWith("/") ? `${opts.origin}${url}` : url);
+  const out = [`# ${session.title}`, ""];
+  if (session.experimentId) out.push(`Experiment: ${session.experimentId}  `);
+  out.push(`Started: ${stamp(session.createdAt)} UTC`, "");
+
+  for (const m of session.messages) {
+    out.push(`## ${m.role === "user" ? "Question" : "Answer"}`, "");
+    if (verifiedNote(m)) out.push(`*${verifiedNote(m)}*`, "");
+    if (m.image) {
+      const img = await opts.loadImage(m.image);
+      const src = img ? `data:${img.mime};base64,${img.data.toString("base64")}` : absolute(m.image);
+      out.push(`![Attached photo](${src})`, "");
+    }
+    out.push(m.content.replace(IMAGE_MD_RE, (_, alt, url, title) => `![${alt}](${absolute(url)}${title ? ` "${title}"` : ""})`), "");
+    for (const c of galleryImages(m)) {
+      out.push(`![${c.alt || c.document}](${absolute(c.url!)})`, `*${c.document}${c.snippet ? `: ${c.snippet}` : ""}*`, "");
+    }
+    for (const p of m.plots ?? []) out.push(`![${p.title}](${plotDataUrl(p)})`, "");
+    const sources = listedSources(m);
+    if (m.role === "assistant" && sources.length) {
+      out.push("**Sources**", "");
+      for (const c of sources) out.push(`- ${sourceLine(c)}`);
+      out.push("");
+    }
+  }
+  return out.join("\n");
+}
+
+// The standard PDF fonts only cover WinAnsi; spell out the symbols the lab answers use
+const PDF_SUBSTITUTES: Record<string, string> = {
+  "Ω": "ohm",
+  "\u2126": "ohm",
+  "µ": "u",
+  "μ": "u",
+  "π": "pi",
+  "φ": "phi",
+  "θ": "theta",
+  "η": "eta",
+  "Δ": "delta",
+  "√": "sqrt",
+  "≈": "~",
+  "≤": "<=",
+  "≥": ">=",
+  "→": "->",
+  "←": "<-",
+  "−": "-",
+  "×": "x",
+  "…": "...",
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+};
+
+const toWinAnsi = (text: string, font: PDFFont) => {
+  const supported = new Set(font.getCharacterSet());
+  let out = "";
+  for (const ch of text.replace(/\t/g, "  ")) {
+    const sub = PDF_SUBSTITUTES[ch] ?? ch;
+    out += [...sub].every((c) => supported.has(c.codePointAt(0)!)) ? sub : "?";
+  }
+  return out;
+};
+
+// Markdown reduced to what a plain text page can show
+const plainText = (md: string) =>
+  md
+    .replace(/```[a-z]*\n?/gi, "")
+    .replace(/^\|?(\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/gm, "")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/\*\*([^*]+)\*\*/g, "$1")
+    .replace(/(^|[^*])\*([^*\n]+)\*/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\((?:[^)]+)\)/g, "$1")
+    .replace(/^\s*[-*]\s+/gm, "• ");
+
+const PAGE = { width: 595.28, height: 841.89, margin: 50 };
+
+export async function sessionToPdf(session: ChatSession, opts: { loadImage: ImageLoader }): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(session.title);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const maxWidth = PAGE.width - 2 * PAGE.margin;
+  let page: PDFPage = pdf.addPage([PAGE.width, PAGE.height]);
+  let y = PAGE.height - PAGE.margin;
+
+  const ensure = (height: number) => {
+    if (y - height >= PAGE.margin) return;
+    page = pdf.addPage([PAGE.width, PAGE.height]);
+    y = PAGE.height - PAGE.margin;
+  };
+
+  const wrap = (text: string, f: PDFFont, size: number) => {
+    const lines: string[] = [];
+    for (const para of text.split("\n")) {
+      let line = "";
+      for (const word of para.split(/ +/)) {
+        const next = line ? `${line} ${word}` : word;
+        if (f.widthOfTextAtSize(next, size) <= maxWidth || !line) {
+          line = next;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  const write = (text: string, { size = 10.5, f = font, gap = 4, color = rgb(0, 0, 0) } = {}) => {
+    for (const line of wrap(toWinAnsi(text, f), f, size)) {
+      ensure(size + 3);
+      y -= size + 3;
+      page.drawText(line, { x: PAGE.margin, y, size, font: f, color });
+    }
+    y -= gap;
+  };
+
+  // PNG and JPEG embed directly; other formats are named instead
+  const embedded = new Map<string, PDFImage | null>();
+  const drawImage = async (url: string, label: string) => {
+    if (!embedded.has(url)) {
+      const img = await opts.loadImage(url);
+      let out: PDFImage | null = null;
+      try {
+        if (img?.mime === "image/png") out = await pdf.embedPng(img.data);
+        else if (img?.mime === "image/jpeg") out = await pdf.embedJpg(img.data);
+      } catch {}
+      embedded.set(url, out);
+    }
+    const img = embedded.get(url);
+    if (!img) return write(`[Image: ${label}]`, { color: rgb(0.4, 0.4, 0.4) });
+    const scale = Math.min(1, maxWidth / img.width, 220 / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    ensure(h + 6);
+    y -= h;
+    page.drawImage(img, { x: PAGE.margin, y, width: w, height: h });
+    y -= 6;
+    if (label) write(label, { size: 9, color: rgb(0.3, 0.3, 0.3) });
+  };
+
+  // Analysis plots, drawn from the same layout as the SVG the page shows
+  const drawPlot = (plot: Plot) => {
+    const l = plotLayout(plot);
+    const scale = Math.min(1, maxWidth / l.width);
+    ensure(l.height * scale + 6);
+    const top = y;
+    const X = (x: number) => PAGE.margin + x * scale;
+    const Y = (v: number) => top - v * scale;
+    const size = 8;
+    const label = (text: string, x: number, v: number, opts: { f?: PDFFont; size?: number; align?: "center" | "end" } = {}) => {
+      const f = opts.f ?? font;
+      const s = opts.size ?? size;
+      const t = toWinAnsi(text, f);
+      const w = f.widthOfTextAtSize(t, s);
+      const dx = opts.align === "center" ? w / 2 : opts.align === "end" ? w : 0;
+      page.drawText(t, { x: X(x) - dx, y: Y(v), size: s, font: f, color: rgb(0.2, 0.2, 0.2) });
+    };
+    const { left, top: ft, right, bottom } = l.frame;
+    const grid = rgb(0.9, 0.9, 0.92);
+    label(plot.title, l.width / 2, 16, { f: bold, size: 10, align: "center" });
+    for (const t of l.xTicks) {
+      page.drawLine({ start: { x: X(t.pos), y: Y(ft) }, end: { x: X(t.pos), y: Y(bottom) }, thickness: 0.5, color: grid });
+      label(t.label, t.pos, bottom + 12, { align: "center" });
+    }
+    for (const t of l.yTicks) {
+      page.drawLine({ start: { x: X(left), y: Y(t.pos) }, end: { x: X(right), y: Y(t.pos) }, thickness: 0.5, color: grid });
+      label(t.label, left - 5, t.pos + 3, { align: "end" });
+    }
+    page.drawRectangle({ x: X(left), y: Y(bottom), width: (right - left) * scale, height: (bottom - ft) * scale, borderColor: rgb(0.42, 0.45, 0.5), borderWidth: 0.75 });
+    if (l.fitLine) {
+      const [[x1, y1], [x2, y2]] = l.fitLine;
+      page.drawLine({ start: { x: X(x1), y: Y(y1) }, end: { x: X(x2), y: Y(y2) }, thickness: 1.2, color: rgb(0.05, 0.45, 0.56) });
+    }
+    for (const [px, py] of l.points) page.drawCircle({ x: X(px), y: Y(py), size: 2.5, color: rgb(0.01, 0.15, 0.24) });
+    label(plot.xLabel, (left + right) / 2, l.height - 8, { align: "center" });
+    const yl = toWinAnsi(plot.yLabel, font);
+    page.drawText(yl, {
+      x: X(14) + 3,
+      y: Y((ft + bottom) / 2) - font.widthOfTextAtSize(yl, size) / 2,
+      size,
+      font,
+      rotate: degrees(90),
+      color: rgb(0.2, 0.2, 0.2),
+    });
+    y = top - l.height * scale - 6;
+  };
+
+  write(session.title, { size: 16, f: bold, gap: 2 });
+  const meta = [session.experimentId ? `Experiment: ${session.experimentId}` : "", `Started: ${stamp(session.createdAt)} UTC`];
+  write(meta.filter(Boolean).join("   "), { size: 9, color: rgb(0.4, 0.4, 0.4), gap: 12 });
+
+  for (const m of session.messages) {
+    write(m.role === "user" ? "Question" : "Answer", { size: 12, f: bold, gap: 2 });
+    if (verifiedNote(m)) write(verifiedNote(m), { size: 9, color: rgb(0.1, 0.45, 0.2) });
+    if (m.image) await drawImage(m.image, "Attached photo");
+    // Inline images become pictures between the text around them
+    let last = 0;
+    for (const match of m.content.matchAll(IMAGE_MD_RE)) {
+      const before = plainText(m.content.slice(last, match.index)).trim();
+      if (before) write(before);
+      await drawImage(match[2], match[3] || match[1]);
+      last = match.index! + match[0].length;
+    }
+    const rest = plainText(m.content.slice(last)).trim();
+    if (rest) write(rest);
+    for (const c of galleryImages(m)) await drawImage(c.url!, `${c.document}${c.snippet ? `: ${c.snippet}` : ""}`);
+    for (const p of m.plots ?? []) drawPlot(p);
+    const sources = listedSources(m);
+    if (m.role === "assistant" && sources.length) {
+      write("Sources", { size: 10, f: bold, gap: 1 });
+      for (const c of sources) write(sourceLine(c), { size: 9, gap: 1 });
+    }
+    y -= 10;
+  }
+  return pdf.save();
+}
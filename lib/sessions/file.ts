@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { ChatSession, SessionStore, SessionSummary, SessionUpload, StoredMessage } from "./types";
+
+// One JSON file per conversation under SESSIONS_DIR (default .data/sessions)/<owner>, uploads in a
+// folder next to it. Writes go through a temp file so a crash never leaves half a session.
+const EXT: Record<string, string> = { "image/png": "png", "image/jpeg": "jpg", "image/gif": "gif", "image/webp": "webp" };
+const MIME = Object.fromEntries(Object.entries(EXT).map(([m, e]) => [e, m]));
+
+// Ids and upload names end up in file paths, so only our own formats are accepted
+const ID_RE = /^[a-f0-9]{24}$/;
+const OWNER_RE = /^[A-Za-z0-9_-]{8,64}$/;
+const UPLOAD_RE = /^[a-f0-9]{16}\.(png|jpg|gif|webp)$/;
+
+const MAX_TITLE = 80;
+
+export const sessionTitle = (text: string) => {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > MAX_TITLE ? `${line.slice(0, MAX_TITLE - 1)}…` : line || "New chat";
+};
+
+export function createFileSessionStore(dir = process.env.SESSIONS_DIR || ".data/sessions"): SessionStore {
+  const root = path.resolve(process.cwd(), dir);
+  const ownerDir = (owner: string) => path.join(root, owner);
+  const fileOf = (owner: string, id: string) => path.join(ownerDir(owner), `${id}.json`);
+  const uploadsOf = (owner: string, id: string) => path.join(ownerDir(owner), id);
+
+  const read = (owner: string, id: string): ChatSession | null => {
+    if (!OWNER_RE.test(owner) || !ID_RE.test(id)) return null;
+    try {
+      const s = JSON.parse(fs.readFileSync(fileOf(owner, id), "utf8")) as ChatSession;
+      return s.owner === owner ? s : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const write = (s: ChatSession) => {
+    fs.mkdirSync(ownerDir(s.owner), { recursive: true });
+    const tmp = `${fileOf(s.owner, s.id)}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(s, null, 2) + "\n");
+    fs.renameSync(tmp, fileOf(s.owner, s.id));
+    return s;
+  };
+
+  const summary = ({ id, title, experimentId, createdAt, updatedAt, messages }: ChatSession): SessionSummary => ({
+    id,
+    title,
+    experimentId,
+    createdAt,
+    updatedAt,
+    messageCount: messages.length,
+  });
+
+  return {
+    kind: "file",
+
+    // Only the owner's folder is read
+    async list(owner) {
+      if (!OWNER_RE.test(owner)) return [];
+      let files: string[] = [];
+      try {
+        files = fs.readdirSync(ownerDir(owner)).filter((f) => f.endsWith(".json"));
+      } catch {}
+      const out: SessionSummary[] = [];
+      for (const f of files) {
+        const s = read(owner, path.basename(f, ".json"));
+        if (s) out.push(summary(s));
+      }
+      return out.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    async get(owner, id) {
+      return read(owner, id);
+    },
+
+    async create(owner, init = {}) {
+      if (!OWNER_RE.test(owner)) throw new Error("Invalid session owner");
+      const now = new Date().toISOString();
+      return write({
+        id: crypto.randomBytes(12).toString("hex"),
+        owner,
+        title: init.title ? sessionTitle(init.title) : "New chat",
+        experimentId: init.experimentId || undefined,
+        createdAt: now,
+        updatedAt: now,
+        messages: [],
+      });
+    },
+
+    async append(owner, id, messages: StoredMessage[]) {
+      const s = read(owner, id);
+      if (!s) return null;
+      // The first question names the conversation unless someone renamed it already
+      const firstQuestion = messages.find((m) => m.role === "user");
+      if (!s.messages.length && s.title === "New chat" && firstQuestion) s.title = sessionTitle(firstQuestion.content);
+      s.messages.push(...messages);
+      s.updatedAt = new Date().toISOString();
+      return write(s);
+    },
+
+    async rename(owner, id, title) {
+      const s = read(owner, id);
+      if (!s) return null;
+      s.title = sessionTitle(title);
+      s.updatedAt = new Date().toISOString();
+      return write(s);
+    },
+
+    async delete(owner, id) {
+      if (!read(owner, id)) return false;
+      fs.rmSync(fileOf(owner, id), { force: true });
+      fs.rmSync(uploadsOf(owner, id), { recursive: true, force: true });
+      return true;
+    },
+
+    async saveUpload(owner, id, upload: SessionUpload) {
+      const ext = EXT[upload.mime];
+      if (!ext || !read(owner, id)) return null;
+      const name = `${crypto.createHash("sha1").update(upload.data).digest("hex").slice(0, 16)}.${ext}`;
+      fs.mkdirSync(uploadsOf(owner, id), { recursive: true });
+      fs.writeFileSync(path.join(uploadsOf(owner, id), name), upload.data);
+      return name;
+    },
+
+    async readUpload(owner, id, name) {
+      if (!UPLOAD_RE.test(name) || !read(owner, id)) return null;
+      try {
+        const data = fs.readFileSync(path.join(uploadsOf(owner, id), name));
+        return { data, mime: MIME[path.extname(name).slice(1)] };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
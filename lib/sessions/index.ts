@@ -0,0 +1,25 @@
+import { createFileSessionStore } from "./file";
+import type { SessionStore } from "./types";
+
+export type * from "./types";
+export { sessionTitle } from "./file";
+
+let cached: { kind: string; store: SessionStore } | null = null;
+
+// SESSION_STORE=file (the only backend for now; a database one would plug in here)
+export function getSessionStore(): SessionStore {
+  const kind = (process.env.SESSION_STORE || "file").trim().toLowerCase();
+  if (kind !== "file") throw new Error(`Unknown SESSION_STORE '${kind}'. Use 'file'.`);
+  if (cached?.kind !== kind) cached = { kind, store: createFileSessionStore() };
+  return cached.store;
+}
+
+// Anonymous per-browser id sent by the page; without one there is nothing to scope sessions to.
+// Plain links (<img>, export downloads) can't set headers, so they pass it as ?client=.
+export function sessionOwner(req: Request): string | null {
+  const id = (req.headers.get("x-client-id") || new URL(req.url).searchParams.get("client") || "").trim();
+  return /^[A-Za-z0-9_-]{8,64}$/.test(id) ? id : null;
+}
+
+// Link the page (and exports) use to show a photo attached to a question
+export const uploadUrl = (sessionId: string, name: string) => `/api/sessions/${sessionId}/uploads/${name}`;
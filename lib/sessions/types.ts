@@ -0,0 +1,56 @@
+import type { Citation } from "../citations";
+import type { RetrievalTrace, VerifiedAnswer } from "../chat/types";
+import type { Plot, ReadingsTable } from "../readings";
+
+// Saved conversations. Sessions belong to an anonymous `owner` id the page keeps in
+// localStorage and sends as X-Client-Id; there are no accounts, so the id is the only key.
+export type StoredMessage = {
+  role: "user" | "assistant";
+  content: string;
+  sources?: Citation[];
+  // URL of a photo attached to the question (served by /api/sessions/[id]/uploads/[name])
+  image?: string;
+  // Readings sent with the question for analysis (kept for the lab report)
+  table?: ReadingsTable;
+  // File name the readings were uploaded as (absent when they were pasted)
+  tableName?: string;
+  // Calculator that produced the answer, when one did
+  tool?: string;
+  // What the answer was based on; sent back with feedback on it
+  trace?: RetrievalTrace;
+  // Set when the answer is an instructor-verified FAQ answer
+  verified?: VerifiedAnswer;
+  // Plots from an analysis of uploaded readings
+  plots?: Plot[];
+  createdAt: string;
+};
+
+export type ChatSession = {
+  id: string;
+  owner: string;
+  title: string;
+  experimentId?: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+};
+
+export type SessionSummary = Omit<ChatSession, "owner" | "messages"> & { messageCount: number };
+
+export type SessionUpload = { data: Buffer; mime: string };
+
+export interface SessionStore {
+  readonly kind: "file";
+  // Newest first
+  list(owner: string): Promise<SessionSummary[]>;
+  // null when the session does not exist or belongs to someone else
+  get(owner: string, id: string): Promise<ChatSession | null>;
+  create(owner: string, init?: { title?: string; experimentId?: string }): Promise<ChatSession>;
+  append(owner: string, id: string, messages: StoredMessage[]): Promise<ChatSession | null>;
+  rename(owner: string, id: string, title: string): Promise<ChatSession | null>;
+  // Resolves to false when there was nothing to delete
+  delete(owner: string, id: string): Promise<boolean>;
+  // Photos attached to questions; `name` is what readUpload takes back
+  saveUpload(owner: string, id: string, upload: SessionUpload): Promise<string | null>;
+  readUpload(owner: string, id: string, name: string): Promise<SessionUpload | null>;
+}
@@ -0,0 +1,75 @@
+import { DataAPIClient, type Collection, type SomeDoc } from "@datastax/astra-db-ts";
+import type { CollectionOptions, SearchHit, SearchOptions, VectorCollection, VectorDoc, VectorStore } from "./types";
+
+class AstraCollection implements VectorCollection {
+  constructor(private readonly coll: Collection<SomeDoc>) {}
+
+  async upsert(doc: VectorDoc) {
+    try {
+      await this.coll.insertOne({ _id: doc.uid, ...doc });
+      return "inserted" as const;
+    } catch {
+      await this.coll.replaceOne({ uid: doc.uid }, { _id: doc.uid, ...doc }, { upsert: true });
+      return "updated" as const;
+    }
+  }
+
+  async deleteMany(uids: string[]) {
+    let deleted = 0;
+    // The Data API caps $in at 100 values
+    for (let i = 0; i < uids.length; i += 100) {
+      const res = await this.coll.deleteMany({ uid: { $in: uids.slice(i, i + 100) } });
+      deleted += res.deletedCount;
+    }
+    return deleted;
+  }
+
+  async vectorSearch(vector: number[], { filter = {}, limit = 12 }: SearchOptions = {}) {
+    const cursor = this.coll.find(filter, { limit }).includeSimilarity(true).sort({ $vector: vector });
+    return (await cursor.toArray()) as SearchHit[];
+  }
+
+  async hybridSearch(vector: number[], lexical: string, { filter = {}, limit = 12 }: SearchOptions = {}) {
+    try {
+      const cursor = this.coll
+        .findAndRerank(filter)
+        .sort({ $hybrid: { $vector: vector, $lexical: lexical } })
+        .limit(limit);
+      // Reranked results wrap the stored document
+      const results = await cursor.toArray();
+      return results.map((r) => (r?.document ?? r) as SearchHit);
+    } catch {
+      // Collections without lexical/rerank enabled reject $hybrid
+      return null;
+    }
+  }
+
+  async flush() {}
+}
+
+export function createAstraStore(): VectorStore {
+  const {
+    ASTRA_DB_API_ENDPOINT,
+    ASTRA_DB_APPLICATION_TOKEN,
+    ASTRA_DB_NAMESPACE,
+  } = process.env as Record<string, string>;
+
+  if (!ASTRA_DB_API_ENDPOINT || !ASTRA_DB_APPLICATION_TOKEN || !ASTRA_DB_NAMESPACE) {
+    throw new Error("Missing Astra DB env: ASTRA_DB_API_ENDPOINT, ASTRA_DB_APPLICATION_TOKEN, ASTRA_DB_NAMESPACE");
+  }
+  const client = new DataAPIClient(ASTRA_DB_APPLICATION_TOKEN);
+  const db = client.db(ASTRA_DB_API_ENDPOINT, { keyspace: ASTRA_DB_NAMESPACE });
+
+  return {
+    kind: "astra",
+    async createCollection(name: string, { dimension, metric = "cosine" }: CollectionOptions) {
+      try {
+        await db.createCollection(name, { vector: { dimension, metric } });
+        console.log("Collection created:", name);
+      } catch (err) {
+        console.log("Collection may already exist:", (err as Error)?.message || String(err));
+      }
+    },
+    collection: (name: string) => new AstraCollection(db.collection(name)),
+  };
+}
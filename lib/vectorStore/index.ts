@@ -0,0 +1,23 @@
+import { createAstraStore } from "./astra";
+import { createLocalStore } from "./local";
+import type { VectorStore } from "./types";
+
+export type * from "./types";
+
+let cached: { kind: string; store: VectorStore } | null = null;
+
+// VECTOR_STORE=astra|local; defaults to Astra when its endpoint is configured, else the local file store
+export function vectorStoreKind(): "astra" | "local" {
+  const explicit = (process.env.VECTOR_STORE || "").trim().toLowerCase();
+  if (explicit === "astra" || explicit === "local") return explicit;
+  if (explicit) throw new Error(`Unknown VECTOR_STORE '${explicit}'. Use 'astra' or 'local'.`);
+  return process.env.ASTRA_DB_API_ENDPOINT ? "astra" : "local";
+}
+
+export function getVectorStore(): VectorStore {
+  const kind = vectorStoreKind();
+  if (cached?.kind !== kind) {
+    cached = { kind, store: kind === "astra" ? createAstraStore() : createLocalStore() };
+  }
+  return cached.store;
+}
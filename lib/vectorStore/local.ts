@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import { cosineSimilarity } from "../embeddings";
+import type {
+  CollectionOptions,
+  Filter,
+  SearchHit,
+  SearchOptions,
+  VectorCollection,
+  VectorDoc,
+  VectorStore,
+} from "./types";
+
+// On-disk store for offline use: one JSON file per collection, brute-force cosine search.
+// Fine for a lab corpus of a few thousand chunks; not meant for large collections.
+type CollectionFile = { name: string; dimension: number; metric: "cosine"; docs: VectorDoc[] };
+
+const tokenize = (s: string) => (s.toLowerCase().match(/[a-z0-9]+/g) || []).filter((t) => t.length > 2);
+
+// Share of query terms present in the document text, in [0, 1]
+const lexicalScore = (terms: Set<string>, text: string) => {
+  if (!terms.size || !text) return 0;
+  const docTerms = new Set(tokenize(text));
+  let hits = 0;
+  for (const t of terms) if (docTerms.has(t)) hits++;
+  return hits / terms.size;
+};
+
+export function matchesFilter(doc: Record<string, unknown>, filter: Filter = {}): boolean {
+  return Object.entries(filter).every(([key, cond]) => {
+    if (key === "$and") return (cond as Filter[]).every((f) => matchesFilter(doc, f));
+    if (key === "$or") return (cond as Filter[]).some((f) => matchesFilter(doc, f));
+    const value = doc[key];
+    if (cond && typeof cond === "object" && !Array.isArray(cond)) {
+      const ops = cond as Record<string, unknown>;
+      if ("$in" in ops && !(ops.$in as unknown[]).includes(value)) return false;
+      if ("$nin" in ops && (ops.$nin as unknown[]).includes(value)) return false;
+      if ("$ne" in ops && value === ops.$ne) return false;
+      if ("$exists" in ops && (value !== undefined) !== Boolean(ops.$exists)) return false;
+      return true;
+    }
+    return Array.isArray(value) ? value.includes(cond) : value === cond;
+  });
+}
+
+class LocalCollection implements VectorCollection {
+  private data: CollectionFile | null = null;
+  private loadedMtime = 0;
+  private dirty = false;
+
+  constructor(private readonly file: string, private readonly name: string) {}
+
+  private load(): CollectionFile {
+    let mtime = 0;
+    try {
+      mtime = fs.statSync(this.file).mtimeMs;
+    } catch {}
+    // Reload when another process (e.g. the seeding script) rewrote the file
+    if (this.data && (this.dirty || mtime === this.loadedMtime)) return this.data;
+    if (mtime) {
+      this.data = JSON.parse(fs.readFileSync(this.file, "utf8")) as CollectionFile;
+      this.loadedMtime = mtime;
+    } else {
+      this.data = { name: this.name, dimension: 0, metric: "cosine", docs: [] };
+    }
+    return this.data;
+  }
+
+  async upsert(doc: VectorDoc) {
+    const data = this.load();
+    if (data.dimension && doc.$vector.length !== data.dimension) {
+      throw new Error(`Vector dimension ${doc.$vector.length} does not match collection ${this.name} (${data.dimension})`);
+    }
+    this.dirty = true;
+    const i = data.docs.findIndex((d) => d.uid === doc.uid);
+    if (i >= 0) {
+      data.docs[i] = doc;
+      return "updated" as const;
+    }
+    data.docs.push(doc);
+    return "inserted" as const;
+  }
+
+  async deleteMany(uids: string[]) {
+    const data = this.load();
+    const drop = new Set(uids);
+    const before = data.docs.length;
+    data.docs = data.docs.filter((d) => !drop.has(d.uid));
+    const deleted = before - data.docs.length;
+    if (deleted) this.dirty = true;
+    return deleted;
+  }
+
+  async vectorSearch(vector: number[], { filter, limit = 12 }: SearchOptions = {}) {
+    const scored: SearchHit[] = [];
+    for (const doc of this.load().docs) {
+      if (!matchesFilter(doc, filter)) continue;
+      // Vectors of another dimension come from a different model; skip rather than score them 0
+      if (doc.$vector?.length !== vector.length) continue;
+      scored.push({ ...doc, $similarity: cosineSimilarity(vector, doc.$vector) });
+    }
+    scored.sort((a, b) => (b.$similarity ?? 0) - (a.$similarity ?? 0));
+    return scored.slice(0, limit);
+  }
+
+  // Weighted blend of cosine similarity and query-term overlap
+  async hybridSearch(vector: number[], lexical: string, { filter, limit = 12 }: SearchOptions = {}) {
+    const terms = new Set(tokenize(lexical));
+    const candidates = await this.vectorSearch(vector, { filter, limit: Math.max(limit * 4, 50) });
+    return candidates
+      .map((d) => ({ d, score: 0.75 * (d.$similarity ?? 0) + 0.25 * lexicalScore(terms, String(d.text ?? "")) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ d }) => d);
+  }
+
+  async flush() {
+    if (!this.dirty || !this.data) return;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.data));
+    fs.renameSync(tmp, this.file);
+    this.loadedMtime = fs.statSync(this.file).mtimeMs;
+    this.dirty = false;
+  }
+
+  setDimension(dimension: number) {
+    const data = this.load();
+    if (data.dimension && data.dimension !== dimension) {
+      throw new Error(`Collection ${this.name} already exists with dimension ${data.dimension}`);
+    }
+    if (!data.dimension) {
+      data.dimension = dimension;
+      this.dirty = true;
+    }
+  }
+}
+
+export function createLocalStore(dir = process.env.LOCAL_VECTOR_DIR || ".data/vectors"): VectorStore {
+  const root = path.resolve(process.cwd(), dir);
+  const collections = new Map<string, LocalCollection>();
+  const collection = (name: string) => {
+    if (!/^[\w-]+$/.test(name)) throw new Error(`Invalid collection name: ${name}`);
+    let c = collections.get(name);
+    if (!c) {
+      c = new LocalCollection(path.join(root, `${name}.json`), name);
+      collections.set(name, c);
+    }
+    return c;
+  };
+  return {
+    kind: "local",
+    async createCollection(name: string, { dimension }: CollectionOptions) {
+      const c = collection(name);
+      c.setDimension(dimension);
+      await c.flush();
+      console.log(`Local collection ready: ${path.join(root, `${name}.json`)}`);
+    },
+    collection,
+  };
+}
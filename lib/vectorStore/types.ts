@@ -0,0 +1,29 @@
+// Backend-neutral vector store used by the seeding script and /api/chat.
+// Filters use the Mongo-style subset Astra understands: field equality, $in, $ne, $exists, $and, $or.
+export type Filter = Record<string, unknown>;
+
+export type VectorDoc = { uid: string; $vector: number[] } & Record<string, unknown>;
+
+// A stored document returned from a search; `$similarity` is cosine similarity when known
+export type SearchHit = Record<string, unknown> & { uid?: string; $similarity?: number };
+
+export type SearchOptions = { filter?: Filter; limit?: number };
+
+export type CollectionOptions = { dimension: number; metric?: "cosine" };
+
+export interface VectorCollection {
+  upsert(doc: VectorDoc): Promise<"inserted" | "updated">;
+  // Remove documents by uid; resolves to the number deleted
+  deleteMany(uids: string[]): Promise<number>;
+  vectorSearch(vector: number[], opts?: SearchOptions): Promise<SearchHit[]>;
+  // Vector + lexical search; resolves to null when the backend cannot do hybrid search
+  hybridSearch(vector: number[], lexical: string, opts?: SearchOptions): Promise<SearchHit[] | null>;
+  // Persist buffered writes (no-op for remote backends)
+  flush(): Promise<void>;
+}
+
+export interface VectorStore {
+  readonly kind: "astra" | "local";
+  createCollection(name: string, opts: CollectionOptions): Promise<void>;
+  collection(name: string): VectorCollection;
+}
@@ -0,0 +1,247 @@
+import fs from "fs";
+import path from "path";
+import { config as loadEnv } from "dotenv";
+import { parse as parseYaml } from "yaml";
+import { collectionNameFor, resolveEmbeddingProvider } from "../lib/embeddings";
+import { corpusVersion, loadManifest } from "../lib/ingestManifest";
+import { vectorStoreKind } from "../lib/vectorStore";
+import { parseHistory } from "../lib/history";
+import { goldenSetPath, type Fact, type GoldenCase } from "../lib/goldenSet";
+import { answerQuestion, defaultChatDeps, planAnswer, type ChatDeps } from "../lib/chat/pipeline";
+import { rerankSettings, resolveReranker } from "../lib/chat/rerank";
+import { webSearchProviderKind } from "../lib/chat/webSearch";
+
+// Offline evaluation: runs a golden set through the /api/chat pipeline and prints a report
+// that is stable across runs, so two configurations can be compared with a plain diff.
+//
+//   tsx scripts/eval.ts [golden.yaml|json] [--k 5] [--llm gemini|stub] [--web] [--faq] [--retrieval-only]
+//                       [--store local|astra] [--embed <provider>] [--out report.md] [--json report.json]
+//
+// --web uses WEB_SEARCH_PROVIDER; set it to mock (with WEB_SEARCH_MOCK_FILE) for repeatable web results.
+
+// Load environment variables from a .env file
+(() => {
+  const candidates = [
+    path.resolve(process.cwd(), "vlab-chatbot/.env"),
+    path.resolve(process.cwd(), ".env"),
+    path.resolve(__dirname, "../.env"),
+  ];
+  for (const p of candidates) {
+    try {
+      if (fs.existsSync(p)) {
+        loadEnv({ path: p });
+        break;
+      }
+    } catch {}
+  }
+})();
+
+type CaseResult = {
+  id: string;
+  recall: number | null;
+  rr: number | null;
+  idk: boolean;
+  factCoverage: number | null;
+  missingFacts: string[];
+  retrieved: string[];
+  intent: string;
+  web: boolean;
+};
+
+// Flags
+const argv = process.argv.slice(2);
+const flag = (name: string) => argv.includes(`--${name}`);
+const option = (name: string) => {
+  const i = argv.indexOf(`--${name}`);
+  return i >= 0 ? argv[i + 1] : undefined;
+};
+const VALUE_FLAGS = new Set(["--k", "--llm", "--store", "--embed", "--out", "--json"]);
+const positional = argv.filter((a, i) => !a.startsWith("--") && !VALUE_FLAGS.has(argv[i - 1]));
+
+const goldenPath = positional[0] ? path.resolve(process.cwd(), positional[0]) : goldenSetPath();
+const K = Math.max(1, parseInt(option("k") || "5", 10) || 5);
+const LLM = option("llm") || "gemini";
+const RETRIEVAL_ONLY = flag("retrieval-only");
+// Backends are chosen the same way as for the app; the flags only override the env
+if (option("store")) process.env.VECTOR_STORE = option("store");
+if (option("embed")) process.env.EMBED_PROVIDER = option("embed");
+
+function loadGolden(file: string): GoldenCase[] {
+  const raw = fs.readFileSync(file, "utf8");
+  const data = /\.json$/i.test(file) ? JSON.parse(raw) : parseYaml(raw);
+  const list: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.questions) ? data.questions : [];
+  const cases = list.map((c, i) => {
+    const item = (c ?? {}) as Record<string, unknown>;
+    if (typeof item.question !== "string" || !item.question.trim()) {
+      throw new Error(`${path.basename(file)}: entry ${i + 1} has no question`);
+    }
+    return {
+      id: typeof item.id === "string" && item.id ? item.id : `q${i + 1}`,
+      question: item.question,
+      experimentId: typeof item.experimentId === "string" ? item.experimentId : undefined,
+      history: parseHistory(item.history),
+      expectedChunks: Array.isArray(item.expectedChunks) ? item.expectedChunks.map(String) : [],
+      facts: Array.isArray(item.facts) ? (item.facts as Fact[]) : [],
+    };
+  });
+  const ids = new Set<string>();
+  for (const c of cases) {
+    if (ids.has(c.id)) throw new Error(`${path.basename(file)}: duplicate id ${c.id}`);
+    ids.add(c.id);
+  }
+  return cases;
+}
+
+// Deterministic stand-in for Gemini: quotes the first source it was given, cited as [1].
+// Measures retrieval and the pipeline's own post-processing without model variance.
+const stubGenerate = async (prompt: string) => {
+  const latest = prompt.match(/Latest question: (.+)\n/);
+  if (latest) return latest[1];
+  const context = prompt.match(/Lab Context:\n([\s\S]*?)\n\nWeb Summary/)?.[1] ?? "";
+  const first = context.split("\n\n---\n\n")[0];
+  const body = first.replace(/^\[\d+\][^\n]*\n/, "").trim();
+  if (!body || body === "(none)") return "I don't know.";
+  return `${body.slice(0, 800)} [1]`;
+};
+
+const normalizeText = (s: string) => s.toLowerCase().replace(/\s+/g, " ");
+const isIdk = (answer: string) => /i\s*don'?t\s*know/i.test(answer);
+
+async function runCase(c: GoldenCase, deps: ChatDeps): Promise<CaseResult> {
+  const input = { question: c.question, history: c.history, experimentId: c.experimentId };
+  let answer = "";
+  let trace;
+  if (RETRIEVAL_ONLY) {
+    trace = (await planAnswer(input, deps)).trace;
+  } else {
+    const out = await answerQuestion(input, deps);
+    answer = out.payload.answer;
+    trace = out.trace;
+  }
+  const topK = trace.ranked.slice(0, K);
+  const expected = c.expectedChunks ?? [];
+  const rank = trace.ranked.findIndex((uid) => expected.includes(uid));
+  const facts = c.facts ?? [];
+  const text = normalizeText(answer);
+  const missingFacts = facts
+    .filter((f) => !(Array.isArray(f) ? f : [f]).some((alt) => text.includes(normalizeText(String(alt)))))
+    .map((f) => (Array.isArray(f) ? f.join(" | ") : f));
+  return {
+    id: c.id,
+    recall: expected.length ? expected.filter((uid) => topK.includes(uid)).length / expected.length : null,
+    rr: expected.length ? (rank >= 0 ? 1 / (rank + 1) : 0) : null,
+    idk: !RETRIEVAL_ONLY && isIdk(answer),
+    factCoverage: !RETRIEVAL_ONLY && facts.length ? (facts.length - missingFacts.length) / facts.length : null,
+    missingFacts: RETRIEVAL_ONLY ? [] : missingFacts,
+    retrieved: topK,
+    intent: trace.intent,
+    web: trace.web,
+  };
+}
+
+const mean = (xs: Array<number | null>) => {
+  const vals = xs.filter((x): x is number => x != null);
+  return vals.length ? vals.reduce((a, b) => a + b, 0) / vals.length : null;
+};
+const fmt = (x: number | null) => (x == null ? "-" : x.toFixed(3));
+
+function renderReport(config: Record<string, string>, results: CaseResult[]) {
+  const summary = {
+    [`recall@${K}`]: mean(results.map((r) => r.recall)),
+    mrr: mean(results.map((r) => r.rr)),
+    idkRate: RETRIEVAL_ONLY ? null : mean(results.map((r) => (r.idk ? 1 : 0))),
+    factCoverage: mean(results.map((r) => r.factCoverage)),
+  };
+  const lines = [
+    "# Evaluation report",
+    "",
+    ...Object.entries(config).map(([k, v]) => `- ${k}: ${v}`),
+    "",
+    "| metric | value |",
+    "| --- | --- |",
+    ...Object.entries(summary).map(([k, v]) => `| ${k} | ${fmt(v)} |`),
+    "",
+    `| id | recall@${K} | RR | idk | facts | intent | web | missing facts | retrieved |`,
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...results.map(
+      (r) =>
+        `| ${[
+          r.id,
+          fmt(r.recall),
+          fmt(r.rr),
+          RETRIEVAL_ONLY ? "-" : r.idk ? "yes" : "no",
+          fmt(r.factCoverage),
+          r.intent,
+          r.web ? "yes" : "no",
+          r.missingFacts.join("; ").replace(/\|/g, "\\|") || "-",
+          r.retrieved.join(" ") || "-",
+        ].join(" | ")} |`
+    ),
+    "",
+  ];
+  return { markdown: lines.join("\n"), json: { config, summary, results } };
+}
+
+async function main() {
+  const cases = loadGolden(goldenPath);
+  const deps = await defaultChatDeps();
+  if (LLM === "stub") deps.generate = stubGenerate;
+  else if (LLM !== "gemini") throw new Error(`Unknown --llm ${LLM} (use gemini or stub)`);
+  // Web results change from day to day; leave them out unless asked for
+  if (!flag("web")) deps.webSearch = async () => ({ provider: null, results: [], received: 0 });
+  // Verified FAQ answers skip retrieval, so they are left out unless asked for too
+  if (!flag("faq")) deps.verifiedAnswers = async () => null;
+
+  const embedding = resolveEmbeddingProvider();
+  const collection = collectionNameFor(embedding);
+  const manifest = loadManifest({ store: vectorStoreKind(), collection, model: embedding.model });
+  const config = {
+    golden: path.relative(process.cwd(), goldenPath).replace(/\\/g, "/"),
+    cases: String(cases.length),
+    store: vectorStoreKind(),
+    collection,
+    model: embedding.model,
+    corpus: Object.keys(manifest.sources).length ? corpusVersion(manifest) : "unknown",
+    llm: RETRIEVAL_ONLY ? "none (retrieval only)" : LLM,
+    web: flag("web") ? webSearchProviderKind() : "off",
+    faq: flag("faq") ? "on" : "off",
+    threshold: process.env.SEARCH_SIM_THRESHOLD ?? "0.6",
+    reranker: resolveReranker().id,
+    "context tokens": String(rerankSettings().tokenBudget),
+    k: String(K),
+  };
+
+  const results: CaseResult[] = [];
+  for (const c of cases) {
+    try {
+      results.push(await runCase(c, deps));
+    } catch (err) {
+      console.error(`! ${c.id}: ${(err as Error)?.message || err}`);
+      // A failed case scores zero on every metric it defines
+      const scored = (defined: boolean | undefined) => (defined ? 0 : null);
+      results.push({
+        id: c.id,
+        recall: scored(c.expectedChunks?.length > 0),
+        rr: scored(c.expectedChunks?.length > 0),
+        idk: !RETRIEVAL_ONLY,
+        factCoverage: scored(!RETRIEVAL_ONLY && c.facts?.length > 0),
+        missingFacts: ["(error)"],
+        retrieved: [],
+        intent: "-",
+        web: false,
+      });
+    }
+  }
+
+  const { markdown, json } = renderReport(config, results);
+  const out = option("out");
+  const jsonOut = option("json");
+  if (out) fs.writeFileSync(path.resolve(process.cwd(), out), markdown);
+  if (jsonOut) fs.writeFileSync(path.resolve(process.cwd(), jsonOut), JSON.stringify(json, null, 2) + "\n");
+  if (!out) process.stdout.write(markdown);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
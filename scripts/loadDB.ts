@@ -1,11 +1,17 @@
 import fs from "fs";
 import path from "path";
 import { config as loadEnv } from "dotenv";
-import { DataAPIClient } from "@datastax/astra-db-ts";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
 import crypto from "crypto";
 import mammoth from "mammoth";
+import { collectionNameFor, getEmbedder, resolveEmbeddingProvider } from "../lib/embeddings";
+import { htmlToBlocks, markdownToBlocks, textToBlocks, type Block } from "../lib/ingest/blocks";
+import { CHUNKER_VERSION, chunkBlocks, type Chunk } from "../lib/ingest/chunking";
+import { saveExperiments, slugify, type Experiment } from "../lib/experiments";
+import { corpusVersion, loadManifest, saveManifest, type ManifestEntry } from "../lib/ingestManifest";
+import { getVectorStore, type VectorDoc } from "../lib/vectorStore";
+import { appendImageDrafts, imageEmbedText, imageManifestPath, isReviewed, loadImageCatalog, type ImageEntry } from "../lib/images";
+import { getCaptioner } from "../lib/captioning";
+import { classifyHeading } from "../lib/sections";
 
 // Load environment variables from a .env file
 (() => {
@@ -24,71 +30,14 @@ import mammoth from "mammoth";
   }
 })();
 
-const {
-  ASTRA_DB_API_ENDPOINT,
-  ASTRA_DB_APPLICATION_TOKEN,
-  ASTRA_DB_NAMESPACE,
-  ASTRA_DB_COLLECTION,
-  GEMINI_API_KEY,
-} = process.env as Record<string, string>;
-
-// Choose embedding provider
-let xenovaExtractor: any = null as any;
-type Embedder = (text: string) => Promise<number[]>;
-const EMBED_PROVIDER = (process.env.EMBED_PROVIDER || "google").toLowerCase();
-const isMultimodal =
-  EMBED_PROVIDER === "multimodal" ||
-  EMBED_PROVIDER === "google-mm" ||
-  EMBED_PROVIDER === "mm" ||
-  /multimodal/.test(String((process.env as any).EMBED_MODEL || ""));
-const useGoogle = !isMultimodal && EMBED_PROVIDER === "google" && !!GEMINI_API_KEY;
-const collectionName = `${ASTRA_DB_COLLECTION}${isMultimodal ? "_mm" : useGoogle ? "" : "_xv"}`;
-const embedDimension = isMultimodal ? 1408 : useGoogle ? 768 : 384;
-
-let embed: Embedder;
-if (isMultimodal) {
-  if (!GEMINI_API_KEY) throw new Error("GEMINI_API_KEY required for multimodalembedding@001");
-  const MM_URL = "https://generativelanguage.googleapis.com/v1beta/models/multimodalembedding@001:embedContent";
-  embed = async (text: string) => {
-    const res = await fetch(MM_URL + `?key=${encodeURIComponent(GEMINI_API_KEY)}`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ content: { parts: [{ text }] } }),
-    } as any);
-    if (!res.ok) throw new Error(`Multimodal embed failed: ${res.status}`);
-    const data: any = await res.json();
-    const values: number[] | undefined = data?.embedding?.values;
-    if (!Array.isArray(values)) throw new Error("No embedding.values returned");
-    return values;
-  };
-} else if (useGoogle) {
-  const gemini = new GoogleGenerativeAIEmbeddings({ apiKey: GEMINI_API_KEY, model: "embedding-001" });
-  embed = async (text: string) => {
-    const out: any = await gemini.embedQuery(text);
-    if (Array.isArray(out) && typeof out[0] === "number") return out as number[];
-    const vec = out?.data?.[0]?.embedding as number[] | undefined;
-    if (!vec) throw new Error("Failed to get embedding vector from Google API response");
-    return vec;
-  };
-} else {
-  embed = async (text: string) => {
-    if (!xenovaExtractor) {
-      const { pipeline } = await import("@xenova/transformers");
-      xenovaExtractor = await pipeline("feature-extraction", "Xenova/all-MiniLM-L6-v2");
-    }
-    const output: any = await xenovaExtractor(text, { pooling: "mean", normalize: true });
-    const data: Float32Array = output?.data ?? output?.tolist?.();
-    if (!data) throw new Error("Failed to compute local embedding");
-    return Array.from(data);
-  };
-}
+// Embedding provider shared with /api/chat (EMBED_PROVIDER, see lib/embeddings.ts)
+const embedding = resolveEmbeddingProvider();
+const isMultimodal = embedding.id === "multimodal";
+const collectionName = collectionNameFor(embedding);
+const embedDimension = embedding.dim;
 
-// Astra client setup
-const client = new DataAPIClient(ASTRA_DB_APPLICATION_TOKEN);
-const db = client.db(ASTRA_DB_API_ENDPOINT, { keyspace: ASTRA_DB_NAMESPACE });
-
-// Text splitter setup
-const splitter = new RecursiveCharacterTextSplitter({ chunkSize: 1000, chunkOverlap: 200 });
+// Vector store (Astra or local file store, see VECTOR_STORE)
+const store = getVectorStore();
 
 // Helpers
 const normalize = (s: string) => s.replace(/[\r\t ]+/g, " ").replace(/\s*\n\s*/g, "\n").trim();
@@ -104,24 +53,9 @@ const imgMime = (file: string): string | null => {
   if (ext === ".svg") return "image/svg+xml";
   return null;
 };
-const embedImageMM = async (filePath: string, mime: string): Promise<number[]> => {
-  if (!GEMINI_API_KEY) throw new Error("GEMINI_API_KEY required for multimodalembedding@001");
-  const MM_URL = "https://generativelanguage.googleapis.com/v1beta/models/multimodalembedding@001:embedContent";
-  const dataB64 = fs.readFileSync(filePath).toString("base64");
-  const res = await fetch(MM_URL + `?key=${encodeURIComponent(GEMINI_API_KEY)}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ content: { parts: [{ inline_data: { mime_type: mime, data: dataB64 } }] } }),
-  } as any);
-  if (!res.ok) throw new Error(`Multimodal image embed failed: ${res.status}`);
-  const data: any = await res.json();
-  const values: number[] | undefined = data?.embedding?.values;
-  if (!Array.isArray(values)) throw new Error("No embedding.values returned for image");
-  return values;
-};
-
-// Read DOCX (or plain text) file
-const readDocxFile = async (filePath: string): Promise<string> => {
+// Read DOCX (or plain text) file as headings and text blocks. DOCX goes through mammoth's
+// HTML output so Heading styles survive; plain text uses line-based heading detection.
+const readDocxBlocks = async (filePath: string): Promise<Block[]> => {
   const header = Buffer.alloc(4);
   const fd = fs.openSync(filePath, "r");
   try {
@@ -131,28 +65,84 @@ const readDocxFile = async (filePath: string): Promise<string> => {
   }
   const isZip = header[0] === 0x50 && header[1] === 0x4b; // 'PK'
   if (isZip) {
-    const { value } = await mammoth.extractRawText({ path: filePath });
-    return value;
+    const { value } = await mammoth.convertToHtml({ path: filePath });
+    return htmlToBlocks(value);
   }
   // Fallback: treat as plain text
-  return fs.readFileSync(filePath, "utf8");
+  return textToBlocks(fs.readFileSync(filePath, "utf8"));
 };
 
-// Create collection in Astra DB
+// PDF text per page; every block records its page number
+const readPdfBlocks = async (filePath: string): Promise<Block[]> => {
+  const { extractText, getDocumentProxy } = await import("unpdf");
+  const pdf = await getDocumentProxy(new Uint8Array(fs.readFileSync(filePath)));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.flatMap((pageText, i) => textToBlocks(pageText).map((b) => ({ ...b, page: i + 1 })));
+};
+
+const readUtf8 = (filePath: string) => fs.readFileSync(filePath, "utf8");
+
+// Document loaders by file extension. PDF blocks carry their page and headings an anchor,
+// which are stored on every chunk so answers can cite the exact location in a manual.
+const LOADERS: Record<string, (filePath: string) => Promise<Block[]>> = {
+  ".docx": readDocxBlocks,
+  ".pdf": readPdfBlocks,
+  ".html": async (f) => htmlToBlocks(readUtf8(f)),
+  ".htm": async (f) => htmlToBlocks(readUtf8(f)),
+  ".md": async (f) => markdownToBlocks(readUtf8(f)),
+  ".markdown": async (f) => markdownToBlocks(readUtf8(f)),
+  ".txt": async (f) => textToBlocks(readUtf8(f)),
+};
+const isLoadable = (name: string) =>
+  !name.startsWith("~$") && !name.startsWith(".") && path.extname(name).toLowerCase() in LOADERS;
+
+// Create collection in the configured vector store
 const createCollection = async (): Promise<void> => {
-  try {
-    const res = await db.createCollection(collectionName, {
-      vector: { dimension: embedDimension, metric: "cosine" },
-    });
-    console.log("Collection created:", res);
-  } catch (err: any) {
-    console.log("Collection may already exist:", err?.message || String(err));
-  }
+  console.log(`Vector store: ${store.kind}, collection: ${collectionName} (dim ${embedDimension})`);
+  await store.createCollection(collectionName, { dimension: embedDimension, metric: "cosine" });
 };
 
-// Load and store experiment data
-const loadAndStoreEmbeddings = async (): Promise<void> => {
-  const collection = db.collection(collectionName);
+const resolveImageDir = () => {
+  const imgDirCandidates = [
+    path.resolve(process.cwd(), "vlab-chatbot/images"),
+    path.resolve(__dirname, "../images"),
+  ];
+  return imgDirCandidates.find((p) => fs.existsSync(p) && fs.statSync(p).isDirectory());
+};
+
+// Resolve experiments in EXPERIMENTS_DIR (default experiments/): each loadable file is one
+// experiment, and each subdirectory is one experiment made of all the documents inside it.
+// Without that directory, the legacy Experiment-docs.docx plus the lab material shipped in
+// images/ (PDF, HTML, Markdown) form a single experiment. The first file supplies the title.
+type ExperimentSource = { id: string; files: string[] };
+const resolveExperimentSources = (): ExperimentSource[] => {
+  const dirName = process.env.EXPERIMENTS_DIR || "experiments";
+  const dirCandidates = [
+    path.resolve(process.cwd(), dirName),
+    path.resolve(process.cwd(), "vlab-chatbot", dirName),
+    path.resolve(__dirname, "..", dirName),
+  ];
+  const listLoadable = (dir: string) =>
+    fs
+      .readdirSync(dir)
+      .filter((name) => isLoadable(name) && fs.statSync(path.join(dir, name)).isFile())
+      .sort()
+      .map((name) => path.join(dir, name));
+  const dir = dirCandidates.find((p) => fs.existsSync(p) && fs.statSync(p).isDirectory());
+  if (dir) {
+    const sources: ExperimentSource[] = [];
+    const usedIds = new Set<string>();
+    for (const name of fs.readdirSync(dir).sort()) {
+      const full = path.join(dir, name);
+      const files = fs.statSync(full).isDirectory() ? listLoadable(full) : isLoadable(name) ? [full] : [];
+      if (!files.length) continue;
+      let id = slugify(name);
+      for (let n = 2; usedIds.has(id); n++) id = `${slugify(name)}-${n}`;
+      usedIds.add(id);
+      sources.push({ id, files });
+    }
+    if (sources.length) return sources;
+  }
   // Resolve docx path robustly across different working directories
   const docCandidates = [
     path.resolve(process.cwd(), "vlab-chatbot/Experiment-docs.docx"),
@@ -161,74 +151,287 @@ const loadAndStoreEmbeddings = async (): Promise<void> => {
   const docPath = docCandidates.find((p) => fs.existsSync(p));
   if (!docPath) {
     throw new Error(
-      "Experiment-docs.docx not found. Place it in vlab-chatbot/ or update the path in scripts/loadDB.ts."
+      `No experiment documents found. Put documents in ${dirName}/ or place Experiment-docs.docx in vlab-chatbot/.`
     );
   }
-  const docText = await readDocxFile(docPath);
-
-  const chunks = await splitter.splitText(docText);
-  console.log(`Split into ${chunks.length} chunks.`);
-
-  let addedText = 0, updatedText = 0, skippedText = 0;
-  for (const raw of chunks) {
-    const chunk = normalize(raw);
-    if (!chunk || chunk.length < 5) { skippedText++; continue; }
-    const uid = hashId("txt", chunk);
-    const vector = await embed(chunk);
-    const doc: any = { uid, type: "text", text: chunk, model: isMultimodal ? "multimodalembedding@001" : useGoogle ? "embedding-001" : "MiniLM-L6-v2", $vector: vector };
+  const imgDir = resolveImageDir();
+  const material = imgDir ? listLoadable(imgDir) : [];
+  return [{ id: slugify(path.basename(docPath)), files: [docPath, ...material] }];
+};
+
+// Title: first heading naming the experiment, else the first short text line, else the humanized file name
+const experimentTitle = (file: string, blocks: Block[]) => {
+  // Markdown and HTML pages name the experiment in their top-level heading
+  if (/\.(md|markdown|html?)$/i.test(file)) {
+    const h1 = blocks.find((b) => b.kind === "heading" && b.level === 1 && !classifyHeading(b.text));
+    if (h1) return normalize(h1.text).replace(/[.:]$/, "");
+  }
+  const named = blocks.findIndex((b) => b.kind === "heading" && /experiment\s+name|title/i.test(b.text));
+  const candidates = named >= 0 ? blocks.slice(named + 1) : blocks;
+  const first = normalize(candidates.find((b) => b.kind === "text")?.text || "");
+  if (first.length >= 3 && first.length <= 120) return first.replace(/[.:]$/, "");
+  return path.basename(file, path.extname(file)).replace(/[-_]+/g, " ").trim();
+};
+
+// Flags: --dry-run reports the plan without embedding or writing; --force re-embeds every chunk;
+// --no-caption skips drafting captions for images missing from images/manifest.yaml
+const args = new Set(process.argv.slice(2));
+const DRY_RUN = args.has("--dry-run");
+const FORCE = args.has("--force");
+const CAPTION = !args.has("--no-caption");
+const CHECKPOINT_EVERY = 20;
+
+const relPath = (file: string) => path.relative(process.cwd(), file).replace(/\\/g, "/");
+const fileHash = (file: string) => crypto.createHash("sha1").update(fs.readFileSync(file)).digest("hex");
+
+// Write draft catalogue entries for images the manifest does not mention yet. They are not
+// indexed until reviewed, so a wrong guess never reaches students.
+const draftImageCaptions = async (imgDir: string, manifestFile: string, known: Set<string>) => {
+  const missing = fs.readdirSync(imgDir).filter((name) => imgMime(name) && !known.has(name));
+  if (!missing.length) return;
+  if (DRY_RUN) {
+    console.log(`Would draft captions for ${missing.length} uncatalogued image(s).`);
+    return;
+  }
+  const captioner = await getCaptioner();
+  console.log(`Drafting captions for ${missing.length} image(s) with ${captioner.id} ...`);
+  const drafts: ImageEntry[] = [];
+  for (const name of missing) {
+    const full = path.join(imgDir, name);
     try {
-      await collection.insertOne(doc, { documentId: uid } as any);
-      addedText++;
-    } catch (e: any) {
+      const draft = await captioner.caption(full, fs.readFileSync(full), imgMime(full));
+      drafts.push({ file: name, ...draft, captioner: captioner.model });
+    } catch (err) {
+      console.log(`! ${name}: captioning failed (${(err as Error)?.message || err})`);
+    }
+  }
+  appendImageDrafts(manifestFile, drafts);
+  console.log(`Added ${drafts.length} draft(s) to ${relPath(manifestFile)}; review them and remove \`draft: true\` to index.`);
+};
+
+// Load and store experiment data
+const loadAndStoreEmbeddings = async (): Promise<void> => {
+  const collection = store.collection(collectionName);
+  // Dry runs never embed, so they need no API key or local model
+  const embedder = DRY_RUN ? null : await getEmbedder();
+  const manifest = loadManifest({ store: store.kind, collection: collectionName, model: embedding.model });
+  const sources = resolveExperimentSources();
+  const fileCount = sources.reduce((n, x) => n + x.files.length, 0);
+  console.log(`Found ${sources.length} experiment(s) in ${fileCount} document(s).${DRY_RUN ? " (dry run)" : ""}`);
+
+  // Persist buffered vectors before the manifest, so the manifest never claims more than was stored
+  const checkpoint = async () => {
+    if (DRY_RUN) return;
+    await collection.flush();
+    saveManifest(manifest);
+  };
+
+  const seen = new Set<string>();
+  const totals = { newFiles: 0, changedFiles: 0, unchangedFiles: 0, removedFiles: 0, add: 0, keep: 0, remove: 0, failed: 0 };
+
+  // Embed the missing chunks of one source, then delete its stale ones. Progress is recorded
+  // under `pending` so an interrupted run picks up where it stopped.
+  const syncSource = async (
+    rel: string,
+    entry: Omit<ManifestEntry, "chunks" | "pending">,
+    chunks: Array<{ uid: string; toDoc: (vector: number[]) => VectorDoc; embedInput: () => Promise<number[]> }>
+  ) => {
+    const prev = manifest.sources[rel];
+    const stored = new Set(FORCE ? [] : prev?.chunks ?? []);
+    const done = new Set(prev?.pending?.hash === entry.hash ? prev.pending.done : []);
+    const wanted = new Set(chunks.map((c) => c.uid));
+    const toEmbed = chunks.filter((c) => !stored.has(c.uid) && !done.has(c.uid));
+    const previous = new Set([...(prev?.chunks ?? []), ...(prev?.pending?.done ?? [])]);
+    const toDelete = [...previous].filter((uid) => !wanted.has(uid));
+    const keep = chunks.length - toEmbed.length;
+
+    if (prev) totals.changedFiles++;
+    else totals.newFiles++;
+    totals.add += toEmbed.length;
+    totals.keep += keep;
+    totals.remove += toDelete.length;
+    console.log(`${prev ? "~" : "+"} ${rel}: add ${toEmbed.length}, keep ${keep}, delete ${toDelete.length}`);
+    if (DRY_RUN) return [...wanted];
+
+    const pending = { hash: entry.hash, done: [...done] };
+    manifest.sources[rel] = { ...entry, chunks: prev?.chunks ?? [], pending };
+    const failed = new Set<string>();
+    let sinceCheckpoint = 0;
+    for (const c of toEmbed) {
       try {
-        await collection.replaceOne({ uid }, doc, { upsert: true } as any);
-        updatedText++;
-      } catch {
-        skippedText++;
+        await collection.upsert(c.toDoc(await c.embedInput()));
+        pending.done.push(c.uid);
+        if (++sinceCheckpoint >= CHECKPOINT_EVERY) {
+          sinceCheckpoint = 0;
+          await checkpoint();
+        }
+      } catch (err) {
+        console.log(`! ${rel}: chunk ${c.uid} failed (${(err as Error)?.message || err})`);
+        failed.add(c.uid);
+        totals.failed++;
       }
     }
+    if (toDelete.length) await collection.deleteMany(toDelete);
+    // Failed chunks are left out and the source stays pending, so the next run retries them
+    const finalChunks = [...wanted].filter((uid) => !failed.has(uid));
+    manifest.sources[rel] = { ...entry, chunks: finalChunks, ...(failed.size ? { pending: { hash: entry.hash, done: [] } } : {}) };
+    await checkpoint();
+    return finalChunks;
+  };
+
+  // Unchanged when size and mtime match, or when the content hash still matches;
+  // text sources chunked by an older chunker are always re-chunked
+  const unchanged = (rel: string, file: string) => {
+    const prev = manifest.sources[rel];
+    if (FORCE || !prev || prev.pending) return null;
+    if (prev.kind === "text" && prev.chunker !== CHUNKER_VERSION) return null;
+    const stat = fs.statSync(file);
+    if (prev.mtimeMs === stat.mtimeMs && prev.size === stat.size) return prev;
+    if (prev.hash !== fileHash(file)) return null;
+    prev.mtimeMs = stat.mtimeMs;
+    prev.size = stat.size;
+    return prev;
+  };
+
+  const experiments: Experiment[] = [];
+  for (const { id: experimentId, files } of sources) {
+    let title = "";
+    let chunkCount = 0;
+    for (const file of files) {
+      const rel = relPath(file);
+      seen.add(rel);
+      const same = unchanged(rel, file);
+      if (same && same.experimentId === experimentId && (title || same.title)) {
+        totals.unchangedFiles++;
+        totals.keep += same.chunks.length;
+        title ||= same.title;
+        chunkCount += same.chunks.length;
+        continue;
+      }
+
+      const stat = fs.statSync(file);
+      let blocks: Block[];
+      try {
+        blocks = await LOADERS[path.extname(file).toLowerCase()](file);
+      } catch (err) {
+        console.log(`! ${rel}: could not be read (${(err as Error)?.message || err})`);
+        totals.failed++;
+        continue;
+      }
+      title ||= experimentTitle(file, blocks);
+      const pieces = new Map<string, Chunk>();
+      for (const c of await chunkBlocks(blocks, { chunkSize: 1000, chunkOverlap: 200 })) {
+        const chunk = normalize(c.text);
+        if (!chunk || chunk.length < 5) continue;
+        const where = c.page ? `p${c.page}` : c.anchor ?? "";
+        pieces.set(hashId("txt", `${experimentId}:${rel}:${where}:${c.section}:${c.heading}:${chunk}`), { ...c, text: chunk });
+      }
+      const stored = await syncSource(
+        rel,
+        { kind: "text", mtimeMs: stat.mtimeMs, size: stat.size, hash: fileHash(file), chunker: CHUNKER_VERSION, experimentId, title },
+        [...pieces].map(([uid, { text: chunk, section, heading, page, anchor }]) => ({
+          uid,
+          embedInput: () => embedder.embed(chunk),
+          toDoc: (vector) => ({
+            uid,
+            type: "text",
+            text: chunk,
+            section,
+            heading,
+            experimentId,
+            experimentTitle: title,
+            source: rel,
+            ...(page ? { page } : {}),
+            ...(anchor ? { anchor } : {}),
+            model: embedding.model,
+            dimension: embedding.dim,
+            $vector: vector,
+          }),
+        }))
+      );
+      chunkCount += stored.length;
+    }
+    experiments.push({ id: experimentId, title: title || experimentId, source: relPath(files[0]), chunks: chunkCount });
   }
 
-  // Images (only if multimodal enabled)
-  let addedImg = 0, updatedImg = 0, skippedImg = 0;
-  if (isMultimodal) {
-    const imgDirCandidates = [
-      path.resolve(process.cwd(), "vlab-chatbot/images"),
-      path.resolve(__dirname, "../images"),
-    ];
-    const imgDir = imgDirCandidates.find((p) => fs.existsSync(p) && fs.statSync(p).isDirectory());
-    if (imgDir) {
-      for (const name of fs.readdirSync(imgDir)) {
-        const full = path.join(imgDir, name);
-        const mime = imgMime(full);
-        if (!mime) continue;
-        try {
-          const vec = await embedImageMM(full, mime);
-          const rel = path.relative(process.cwd(), full).replace(/\\/g, "/");
-          const uid = hashId("img", `${rel}:${fs.statSync(full).size}`);
-          const doc: any = { uid, type: "image", path: rel, mime, model: "multimodalembedding@001", $vector: vec };
-          try {
-            await collection.insertOne(doc, { documentId: uid } as any);
-            addedImg++;
-          } catch {
-            await collection.replaceOne({ uid }, doc, { upsert: true } as any);
-            updatedImg++;
-          }
-        } catch {
-          skippedImg++;
-        }
+  // Images: the multimodal embedder embeds the pixels; any other embedder embeds the catalogue
+  // text (images/manifest.yaml), so only reviewed catalogue entries are indexed. Catalogue
+  // metadata is stored with the image either way and a changed entry re-embeds it.
+  const imgDir = resolveImageDir();
+  if (imgDir) {
+    const manifestFile = imageManifestPath(imgDir);
+    const entries = loadImageCatalog(manifestFile);
+    if (CAPTION) await draftImageCaptions(imgDir, manifestFile, new Set(entries.map((e) => e.file)));
+    const catalog = new Map(entries.filter(isReviewed).map((e) => [e.file, e]));
+    for (const name of fs.readdirSync(imgDir)) {
+      const full = path.join(imgDir, name);
+      const mime = imgMime(full);
+      const info = catalog.get(name);
+      if (!mime || (!isMultimodal && !info)) continue;
+      const rel = relPath(full);
+      seen.add(rel);
+      const meta = info ? hashId("meta", JSON.stringify(info)) : undefined;
+      const same = unchanged(rel, full);
+      if (same && same.meta === meta) {
+        totals.unchangedFiles++;
+        totals.keep += same.chunks.length;
+        continue;
       }
+      const stat = fs.statSync(full);
+      const hash = fileHash(full);
+      const uid = hashId("img", `${rel}:${hash}:${meta ?? ""}`);
+      await syncSource(rel, { kind: "image", mtimeMs: stat.mtimeMs, size: stat.size, hash, ...(meta ? { meta } : {}) }, [
+        {
+          uid,
+          embedInput: () => (isMultimodal ? embedder.embedImage(fs.readFileSync(full), mime) : embedder.embed(imageEmbedText(info))),
+          toDoc: (vector) => ({
+            uid,
+            type: "image",
+            path: rel,
+            mime,
+            ...(info ? { title: info.title, caption: info.caption, alt: info.alt, kind: info.kind, tags: info.tags } : {}),
+            model: embedding.model,
+            dimension: embedding.dim,
+            $vector: vector,
+          }),
+        },
+      ]);
     }
   }
 
-  console.log(`Text added: ${addedText}, updated: ${updatedText}, skipped: ${skippedText}`);
-  if (isMultimodal) console.log(`Images added: ${addedImg}, updated: ${updatedImg}, skipped: ${skippedImg}`);
+  // Sources that no longer exist: delete everything they produced
+  for (const [rel, entry] of Object.entries(manifest.sources)) {
+    if (seen.has(rel)) continue;
+    const uids = [...new Set([...entry.chunks, ...(entry.pending?.done ?? [])])];
+    totals.removedFiles++;
+    totals.remove += uids.length;
+    console.log(`- ${rel}: delete ${uids.length}`);
+    if (DRY_RUN) continue;
+    if (uids.length) await collection.deleteMany(uids);
+    delete manifest.sources[rel];
+    await checkpoint();
+  }
+
+  console.log(
+    `Files new: ${totals.newFiles}, changed: ${totals.changedFiles}, unchanged: ${totals.unchangedFiles}, removed: ${totals.removedFiles}`
+  );
+  console.log(
+    `Chunks ${DRY_RUN ? "to add" : "added"}: ${totals.add}, kept: ${totals.keep}, ${DRY_RUN ? "to delete" : "deleted"}: ${totals.remove}` +
+      (totals.failed ? `, failed: ${totals.failed}` : "")
+  );
+  if (DRY_RUN) {
+    console.log("Dry run: nothing was embedded, stored or deleted.");
+    return;
+  }
+  saveExperiments(experiments);
+  console.log(`Wrote experiment catalogue (${experiments.length} experiments).`);
+  await checkpoint();
+  console.log(`Corpus version: ${corpusVersion(manifest)}`);
   console.log("All embeddings processed.");
 };
 
 // Run
 (async () => {
-  await createCollection();
+  if (!DRY_RUN) await createCollection();
   await loadAndStoreEmbeddings();
 })();
-